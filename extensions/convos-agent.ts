@@ -5,50 +5,221 @@
  * to have real-time Convos conversations while doing other work.
  *
  * How it works:
- * - Spawns `convos agent serve` as a child process
+ * - Spawns one `convos agent serve` child process per active conversation
  * - Streams incoming messages and injects them via pi.sendMessage()
  * - Registers `convos_send` and `convos_react` tools for the LLM to reply
+ * - Runs messages and prompts scheduled with `convos_schedule` when they come due
  * - Messages from Convos users interrupt the agent as new turns
  *
+ * Several conversations can be active at once. Tools take an optional
+ * conversationId and default to the conversation of the latest Convos message.
+ *
  * Modes:
  *   Interactive (TUI) — user starts with /convos-start command
  *   Headless — auto-starts on session_start when no UI is available
  *
- * Headless mode is configured via environment variables:
- *   CONVOS_ENV_FILE     — Path to .env file for convos CLI (auto-created if missing)
- *   CONVOS_NAME         — Conversation name (default: derived from project/branch)
- *   CONVOS_PROFILE_NAME — Profile name shown to other members (default: "Pi")
+ * Settings come from .pi/convos.config.json, a user-level convos.config.json
+ * in pi's agent directory, CONVOS_* environment variables and /convos-start
+ * flags, in increasing precedence (see ./convos/config.ts). They cover the
+ * identity (CONVOS_ENV_FILE, CONVOS_NAME, CONVOS_PROFILE_NAME), auto-start,
+ * catch-up limits, batching and rate limits, attachments, progress updates,
+ * reactions that start a turn, QR code rendering, headless logging, the
+ * metrics file and tool approval.
+ *
+ * Chat commands (both modes):
+ *   Members can send /status, /stop, /pause, /resume, /summary or /help in
+ *   the chat. They are answered by the extension without an LLM turn.
  *
  * Commands (interactive only):
- *   /convos-start [args]  — Start the agent (args passed to `convos agent serve`)
- *   /convos-stop          — Stop the agent
- *   /convos-status        — Show agent status
+ *   /convos-start [args]  — Start a conversation (args passed to `convos agent serve`)
+ *   /convos-stop [id]     — Stop one conversation, or all of them
+ *   /convos-new [args]    — Start a new conversation, leaving saved ones alone
+ *   /convos-history       — List saved conversations; resume one with /convos-start <name>
+ *   /convos-invite [rotate|revoke] — Show, replace or revoke the invite
+ *   /convos-members [remove <member>] — List members, or remove one
+ *   /convos-rename <name> — Rename the conversation
+ *   /convos-leave         — Leave the conversation and forget it
+ *   /convos-export [...]  — Write the history to Markdown or JSON lines (also headless)
+ *   /convos-outbox [clear] — Show or drop messages queued while an agent was down (also headless)
+ *   /convos-status        — Show every active conversation and the metrics (also headless)
+ *   /convos-access [...]  — Show or edit who may drive the agent from Convos
+ *   /convos-progress [level] — Show or set progress updates for a conversation
+ *   /convos-config [reload] — Show the effective settings and their sources
  *
  * Requires @convos/cli to be installed: npm install -g @convos/cli
  */
 
-import { spawn, type ChildProcess, execSync } from "node:child_process";
-import { createInterface, type Interface } from "node:readline";
-import { readFileSync, writeFileSync, mkdirSync, existsSync, unlinkSync } from "node:fs";
-import { join, dirname } from "node:path";
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { execSync } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { readFileSync, mkdirSync, existsSync, statSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, dirname, resolve as resolvePath } from "node:path";
+import { getAgentDir, type ExtensionAPI, type ExtensionContext, type ExtensionUIContext } from "@mariozechner/pi-coding-agent";
 import { Text } from "@mariozechner/pi-tui";
 import { Type } from "@sinclair/typebox";
+import {
+  formatBytes,
+  imageMimeType,
+  isImageFile,
+  isTextFile,
+  parseRemoteAttachment,
+  pruneInbox,
+  readExcerpt,
+  safeFilename,
+} from "./convos/attachments.js";
+import {
+  PROGRESS_LEVELS,
+  flattenSettings,
+  loadConvosConfig,
+  parseStartArgs,
+  projectConfigPath,
+  tokenizeArgs,
+  userConfigPath,
+  withStartArgs,
+  type ConvosSettings,
+  type LoadedConfig,
+  type ProgressLevel,
+  type StartArgs,
+} from "./convos/config.js";
+import {
+  TRANSCRIPT_FORMATS,
+  parseExportDate,
+  renderTranscript,
+  transcriptExtension,
+  type TranscriptEntry,
+  type TranscriptFormat,
+} from "./convos/export.js";
+import { formatOutgoingMessage } from "./convos/format.js";
+import { Logger } from "./convos/logger.js";
+import { MessageCache, quoteText } from "./convos/message-cache.js";
+import { Metrics, formatMetrics, writeMetricsFile } from "./convos/metrics.js";
+import { detectQrRenderer, renderQr, type QrRenderer } from "./convos/qr.js";
+import { alignToRepeat, describeRepeat, nextOccurrence, parseRepeat, parseScheduleTime } from "./convos/schedule.js";
+import {
+  StateStore,
+  archiveConversation,
+  emptyState,
+  findSavedConversation,
+  removeConversation,
+  removeOutboxEntries,
+  removeSchedule,
+  upsertConversation,
+  upsertSchedule,
+  type PersistedConversation,
+  type PersistedOutboxEntry,
+  type PersistedSchedule,
+  type PersistedState,
+} from "./convos/state.js";
+import {
+  createCliTransport,
+  type ConvosTransport,
+  type MessageQuery,
+  type ServeHandle,
+} from "./convos/transport.js";
+
+/** A stdin command that was not confirmed by a `sent` event. */
+class SendError extends Error {
+  constructor(message: string, readonly transient: boolean) {
+    super(message);
+    this.name = "SendError";
+  }
+}
+
+/**
+ * Extension entry point. pi passes only the ExtensionAPI; tests pass a fake
+ * transport (see ./convos/fake-transport.ts) to run without the convos CLI.
+ */
+export default function (pi: ExtensionAPI, transport: ConvosTransport = createCliTransport()) {
+  // One entry per supervised `convos agent serve` child. conversationId is only
+  // known once the child emits `ready` when a new conversation is being created.
+  // The entry outlives its child process so restarts keep supervision state.
+  interface ActiveConversation {
+    args: string[];
+    serve: ServeHandle | null;
+    stdinWriter: (cmd: object) => void;
+    conversationId: string | null;
+    // Name given with --name when the conversation was created
+    name: string | null;
+    qrCodePath: string | null;
+    inviteUrl: string | null;
+    isReady: boolean;
+    lastSeenTimestampNs: string | null;
+    members: Map<string, MemberInfo>;
+    membersRefreshedAt: number;
+    access: AccessPolicy;
+    // Commands written to stdin that wait for their `sent` or `error` event
+    pendingCommands: PendingCommand[];
+    // Messages waiting for the debounce window or a rate limit to pass
+    inbound: InboundMessage[];
+    flushTimer: ReturnType<typeof setTimeout> | null;
+    // When the oldest message not yet answered with convos_send arrived
+    awaitingReplySince: number | null;
+    // Inbound events are handled one at a time, in the order they arrived
+    receiving: Promise<void>;
+    // Set by the /pause chat command: messages are queued, not forwarded
+    paused: boolean;
+    progress: ProgressLevel;
+    // Supervision
+    stopped: boolean;
+    everReady: boolean;
+    readyAt: number | null;
+    restartAttempts: number;
+    exitTimes: number[];
+    restartTimer: ReturnType<typeof setTimeout> | null;
+  }
+
+  interface MemberInfo {
+    inboxId: string;
+    name: string | null;
+  }
+
+  // owner: full control. collaborator: may chat, but only for read-only work.
+  // observer: messages are logged but never reach the agent.
+  type AccessRole = "owner" | "collaborator" | "observer";
+
+  interface AccessPolicy {
+    // Keyed by inbox ID. An empty map means the conversation is open and
+    // everyone is treated as owner; once any role is set, unknown members
+    // are treated like observers.
+    roles: Record<string, AccessRole>;
+  }
+
+  const ACCESS_ROLES: AccessRole[] = ["owner", "collaborator", "observer"];
+
+  const isProgressLevel = (value: unknown): value is ProgressLevel => (PROGRESS_LEVELS as readonly unknown[]).includes(value);
+
+  // One message ready for the agent, as posted when delivered on its own
+  interface InboundMessage {
+    content: string;
+    details: {
+      conversationId: string | null;
+      id: string;
+      senderInboxId: string;
+      senderName: string;
+      senderRole: AccessRole | null;
+      [key: string]: unknown;
+    };
+  }
+
+  interface PendingCommand {
+    requestId: string;
+    timer: ReturnType<typeof setTimeout>;
+    resolve: (event: any) => void;
+    reject: (err: SendError) => void;
+  }
 
-export default function (pi: ExtensionAPI) {
-  let agentProcess: ChildProcess | null = null;
-  let stdinWriter: ((cmd: object) => void) | null = null;
-  let conversationId: string | null = null;
-  let qrCodePath: string | null = null;
-  let inviteUrl: string | null = null;
-  let rl: Interface | null = null;
-  let isReady = false;
+  const conversations = new Set<ActiveConversation>();
   let lastMessageFromConvos = false;
+  let lastConvosConversationId: string | null = null;
+  let lastConvosSenderRole: AccessRole | null = null;
   let headlessMode = false;
+  let ui: ExtensionUIContext | null = null;
+  // Latest context from session_start, for abort/isIdle/model outside a command
+  let sessionCtx: ExtensionContext | null = null;
+  const loadedAt = Date.now();
 
-  // Headless catch-up state
-  let lastSeenTimestampNs: string | null = null;
-  let ownInboxId: string | null = null;
+  // Inbox IDs of our own identities, to tell our messages apart
+  let ownInboxIds: Set<string> | null = null;
 
   // Resolve worktree root eagerly at load time
   let worktreeRoot: string | null = null;
@@ -60,54 +231,112 @@ export default function (pi: ExtensionAPI) {
     // Not in a git repo
   }
 
-  // --- Headless env config ---
-  const convosEnvFile = process.env.CONVOS_ENV_FILE || null;
-  const convosName = process.env.CONVOS_NAME || null;
-  const convosProfileName = process.env.CONVOS_PROFILE_NAME || "Pi";
+  // --- Settings ---
+
+  // Defaults < user file < project file < env vars; reloaded on session_start
+  function loadSettings(): LoadedConfig {
+    return loadConvosConfig({ agentDir: getAgentDir(), projectDir: worktreeRoot ?? process.cwd() });
+  }
+
+  let config = loadSettings();
+  let settings = config.settings;
+
+  // --- Logging and metrics ---
+
+  // Headless output only: in the TUI the same events are shown as messages
+  function createLogger(): Logger {
+    return new Logger({
+      level: settings.log.level,
+      format: settings.log.format,
+      write: (line, level) => (level === "warn" || level === "error" ? console.error : console.log)(line),
+    });
+  }
+
+  let logger = createLogger();
+  const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+  const metrics = new Metrics();
+  let metricsTimer: ReturnType<typeof setInterval> | null = null;
+
+  function getMetricsPath(): string | null {
+    return settings.metrics.file ? resolvePath(settings.metrics.file) : null;
+  }
+
+  function writeMetrics() {
+    const path = getMetricsPath();
+    if (!path) return;
+    try {
+      writeMetricsFile(path, metrics.snapshot());
+    } catch (err: any) {
+      if (headlessMode) logger.warn(`⚠ Failed to write Convos metrics to ${path}: ${err.message}`, { event: "metrics_error" });
+    }
+  }
+
+  function startMetricsFile() {
+    if (metricsTimer) clearInterval(metricsTimer);
+    metricsTimer = null;
+    if (!getMetricsPath()) return;
+    metricsTimer = setInterval(writeMetrics, settings.metrics.intervalSeconds * 1000);
+    metricsTimer.unref?.();
+  }
 
-  // --- Config persistence ---
+  // --- State persistence ---
 
   function getConvosConfigPath(): string | null {
     // Headless: store alongside the env file
-    if (convosEnvFile) {
-      return join(dirname(convosEnvFile), "convos-session.json");
+    if (settings.envFile) {
+      return join(dirname(settings.envFile), "convos-session.json");
     }
     // Interactive: store in .pi/ inside worktree
     if (!worktreeRoot) return null;
     return join(worktreeRoot, ".pi", "convos.json");
   }
 
-  interface PersistedState {
-    conversationId: string;
-    inviteUrl?: string | null;
-    lastSeenTimestampNs?: string | null;
+  let stateStore: StateStore | null = null;
+
+  function reportStateWarning(message: string) {
+    if (headlessMode) {
+      logger.warn(`⚠ Convos state: ${message}`, { event: "state_warning" });
+    } else {
+      ui?.notify(`Convos state: ${message}`, "warning");
+    }
   }
 
-  function loadPersistedState(): PersistedState | null {
-    const configPath = getConvosConfigPath();
-    if (!configPath || !existsSync(configPath)) return null;
-    try {
-      return JSON.parse(readFileSync(configPath, "utf-8")) as PersistedState;
-    } catch {
-      return null;
+  /** Store for the current state file, which moves when the env file setting changes. */
+  function getStateStore(): StateStore | null {
+    const path = getConvosConfigPath();
+    if (!path) return null;
+    if (stateStore?.path !== path) {
+      stateStore?.flush();
+      stateStore = new StateStore(path, { writeDelayMs: settings.state.writeDelayMs, onWarning: reportStateWarning });
     }
+    stateStore.writeDelayMs = settings.state.writeDelayMs;
+    return stateStore;
   }
 
-  function loadPersistedConversation(): string | null {
-    return loadPersistedState()?.conversationId ?? null;
+  function loadPersistedState(): PersistedState {
+    return getStateStore()?.read() ?? emptyState();
   }
 
-  function persistState() {
-    if (!conversationId) return;
-    const configPath = getConvosConfigPath();
-    if (!configPath) return;
-    mkdirSync(dirname(configPath), { recursive: true });
-    const state: PersistedState = {
-      conversationId,
-      inviteUrl,
-      lastSeenTimestampNs,
+  function persistConversation(conv: ActiveConversation) {
+    if (!conv.conversationId) return;
+    const entry: PersistedConversation = {
+      conversationId: conv.conversationId,
+      name: conv.name,
+      inviteUrl: conv.inviteUrl,
+      lastSeenTimestampNs: conv.lastSeenTimestampNs,
+      members: [...conv.members.values()],
+      access: conv.access,
+      progress: conv.progress,
+      updatedAt: new Date().toISOString(),
     };
-    writeFileSync(configPath, JSON.stringify(state, null, 2) + "\n");
+    getStateStore()?.update((state) => upsertConversation(state, entry));
+  }
+
+  /** Stop resuming a conversation on start; it stays resumable by name. */
+  function archivePersistedConversation(conv: ActiveConversation) {
+    if (!conv.conversationId) return;
+    const { conversationId } = conv;
+    getStateStore()?.update((state) => archiveConversation(state, conversationId));
   }
 
   function getDefaultConversationName(): string {
@@ -139,482 +368,2326 @@ export default function (pi: ExtensionAPI) {
     return projectName;
   }
 
-  // --- Headless: Convos identity init ---
-
-  function ensureConvosInit() {
-    if (!convosEnvFile) return;
-    if (existsSync(convosEnvFile)) return;
-    mkdirSync(dirname(convosEnvFile), { recursive: true });
-    execSync(`convos init --env dev --output ${convosEnvFile} --force`, {
-      encoding: "utf-8",
-      timeout: 15000,
-      stdio: ["pipe", "pipe", "pipe"],
-    });
+  /** Value following a flag in an argument list. */
+  function argValue(args: string[], flag: string): string | null {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] ?? null : null;
   }
 
-  // --- Headless: Catch-up on missed messages ---
+  // --- Message cache ---
 
-  function getOwnInboxId(): string | null {
-    if (!convosEnvFile) return null;
-    try {
-      const output = execSync(`convos identity list --env-file ${convosEnvFile} --json`, {
-        encoding: "utf-8",
-        timeout: 10000,
-        stdio: ["pipe", "pipe", "pipe"],
-      });
-      const identities = JSON.parse(output);
-      if (identities.length > 0) return identities[0].inboxId;
-    } catch {}
-    return null;
+  let messageCache: MessageCache | null = null;
+
+  /** Cache of recent messages, kept next to the state file (or only in memory without one). */
+  function getMessageCache(): MessageCache {
+    const statePath = getConvosConfigPath();
+    const path = statePath ? join(dirname(statePath), "convos-messages.jsonl") : null;
+    if (messageCache?.path !== path) messageCache = new MessageCache(path);
+    return messageCache!;
   }
 
-  function catchUpOnMissedMessages() {
-    if (!conversationId || !convosEnvFile || !lastSeenTimestampNs) return;
+  /** Cache a message fetched from stored history. */
+  function cacheStoredMessage(conv: ActiveConversation, msg: any) {
+    // Reactions are not messages anyone replies to
+    if (!msg?.id || parseReaction({ ...msg, contentType: contentTypeOf(msg) })) return;
+    const fromSelf = isOwnInbox(msg.senderInboxId);
+    getMessageCache().add({
+      id: msg.id,
+      conversationId: conv.conversationId!,
+      senderInboxId: msg.senderInboxId ?? null,
+      senderName: fromSelf ? null : conv.members.get(msg.senderInboxId)?.name ?? null,
+      fromSelf,
+      text: describeContent(msg),
+      replyTo: replyTargetOf(msg),
+      sentAt: msg.sentAt,
+    });
+  }
 
-    try {
-      let cmd = `convos conversation messages ${conversationId} --sync --json --limit 50 --direction ascending --content-type text --env-file ${convosEnvFile}`;
-      cmd += ` --sent-after ${lastSeenTimestampNs}`;
+  /** `Alice [id]: "quoted text"` for a cached message, with "you" for our own. */
+  function describeCachedMessage(id: string): string | null {
+    const cached = getMessageCache().get(id);
+    if (!cached) return null;
+    const author = cached.fromSelf ? "you" : cached.senderName ?? cached.senderInboxId ?? "unknown";
+    return `${author} [${id}]: "${quoteText(cached.text)}"`;
+  }
 
-      const output = execSync(cmd, {
-        encoding: "utf-8",
-        timeout: 30000,
-        stdio: ["pipe", "pipe", "pipe"],
-      });
+  // --- Conversation registry ---
 
-      const messages = JSON.parse(output);
-      if (!messages || messages.length === 0) return;
+  function readyConversations(): ActiveConversation[] {
+    return [...conversations].filter((c) => c.isReady);
+  }
 
-      // Get own inbox ID to filter out our messages
-      if (!ownInboxId) ownInboxId = getOwnInboxId();
+  function findConversation(id: string): ActiveConversation | undefined {
+    return [...conversations].find((c) => c.conversationId === id);
+  }
 
-      const missed = messages.filter((msg: any) =>
-        msg.senderInboxId !== ownInboxId &&
-        msg.content?.text
-      );
+  function notRunningMessage(): string {
+    return headlessMode
+      ? "Convos agent is not running."
+      : "Convos agent is not running. Use /convos-start to start it.";
+  }
 
-      if (missed.length === 0) return;
+  /** The conversation a child serves: known once ready, or from the args when resuming. */
+  function targetConversationId(conv: ActiveConversation): string | null {
+    if (conv.conversationId) return conv.conversationId;
+    const first = conv.args[0];
+    return first && !first.startsWith("-") ? first : null;
+  }
 
-      console.log(`\n📬 ${missed.length} missed message(s) from Convos:`);
+  /**
+   * Pick the conversation a tool call targets: the explicit ID if given,
+   * otherwise the only active conversation, otherwise the one the latest
+   * Convos message came from. With includeDown, conversations whose child is
+   * starting or restarting count as active too.
+   */
+  function resolveConversation(
+    requestedId?: string,
+    { includeDown = false } = {},
+  ): { conversation: ActiveConversation } | { error: string } {
+    const candidates = includeDown
+      ? [...conversations].filter((c) => !c.stopped && targetConversationId(c))
+      : readyConversations();
+    if (requestedId) {
+      const match = candidates.find((c) => targetConversationId(c) === requestedId);
+      return match
+        ? { conversation: match }
+        : { error: `Convos conversation ${requestedId} is not active.` };
+    }
+    if (candidates.length === 0) return { error: notRunningMessage() };
+    if (candidates.length === 1) return { conversation: candidates[0] };
+    const latest = candidates.find((c) => targetConversationId(c) === lastConvosConversationId);
+    if (latest) return { conversation: latest };
+    return {
+      error: `Multiple Convos conversations are active (${candidates.map(targetConversationId).join(", ")}). Pass conversationId.`,
+    };
+  }
 
-      const summary = missed.map((msg: any) => {
-        const text = msg.content?.text || msg.content;
-        console.log(`   💬 ${msg.senderInboxId}: ${text}`);
-        return `[${msg.senderInboxId}]: ${text}`;
-      }).join("\n");
+  // --- Member directory ---
 
-      // Update lastSeen to the newest message
-      const newest = messages[messages.length - 1];
-      if (newest?.sentAtNs) {
-        lastSeenTimestampNs = newest.sentAtNs;
-        persistState();
-      }
+  // Unknown senders trigger a refresh, but not more often than this
+  const MEMBER_REFRESH_INTERVAL_MS = 30_000;
 
-      // Inject as a single steer message
-      lastMessageFromConvos = true;
-      pi.sendUserMessage(
-        `[Missed Convos messages while you were offline]:\n${summary}\n\nReview these messages. If any need a response, reply via convos_send. Then continue with your work.`,
-        { deliverAs: "steer" },
+  /** Fetch the roster and profile names of a conversation through the CLI. */
+  async function fetchMembers(conversationId: string): Promise<MemberInfo[] | null> {
+    try {
+      const members = await transport.conversationMembers(conversationId, settings.envFile);
+      // Profiles are optional — members without one fall back to their inbox ID
+      let profiles: any[] = [];
+      try {
+        profiles = await transport.conversationProfiles(conversationId, settings.envFile);
+      } catch {}
+      const names = new Map<string, string>(
+        profiles.filter((p) => p?.inboxId && p?.name).map((p) => [p.inboxId, p.name]),
       );
-    } catch (err) {
-      console.error("⚠ Failed to catch up on missed messages:", err);
+      return members
+        .filter((m: any) => m?.inboxId)
+        .map((m: any) => ({ inboxId: m.inboxId, name: names.get(m.inboxId) ?? null }));
+    } catch {
+      return null;
     }
   }
 
-  // Track when a convos message triggers a turn vs terminal input
-  pi.on("input", async (event) => {
-    if (event.source === "interactive") {
-      lastMessageFromConvos = false;
-    }
-  });
+  async function refreshMembers(conv: ActiveConversation) {
+    if (!conv.conversationId) return;
+    conv.membersRefreshedAt = Date.now();
+    const members = await fetchMembers(conv.conversationId);
+    if (!members) return;
+    conv.members = new Map(members.map((m) => [m.inboxId, m]));
+    persistConversation(conv);
+  }
 
-  pi.on("before_agent_start", async (event) => {
-    if (!isReady) return;
+  /** Refresh the roster when a sender isn't in it yet, e.g. someone who joined while we were offline. */
+  async function ensureMemberKnown(conv: ActiveConversation, inboxId: string) {
+    if (conv.members.has(inboxId)) return;
+    if (Date.now() - conv.membersRefreshedAt < MEMBER_REFRESH_INTERVAL_MS) return;
+    await refreshMembers(conv);
+  }
 
-    // In headless mode, all messages from the agent are potentially for Convos
-    if (headlessMode) {
-      if (lastMessageFromConvos) {
-        return {
-          systemPrompt: event.systemPrompt +
-            "\n\nThe current message is from a Convos user. Reply using the convos_send tool. Do NOT use markdown — Convos renders plain text only.",
-        };
-      }
-      return;
-    }
+  function memberName(conv: ActiveConversation, inboxId: string): string {
+    return conv.members.get(inboxId)?.name ?? inboxId;
+  }
 
-    if (lastMessageFromConvos) {
-      return {
-        systemPrompt: event.systemPrompt +
-          "\n\nThe current message is from a Convos user. Reply using the convos_send tool. Do NOT use markdown — Convos renders plain text only.",
-      };
-    } else {
-      return {
-        systemPrompt: event.systemPrompt +
-          "\n\nThe current message is from the terminal. Respond normally as plain text output. Do NOT use convos_send or convos_react — those are only for Convos messages.",
-      };
-    }
-  });
+  // --- Access policy ---
 
-  function startAgent(args: string[]) {
-    // Use globally installed convos CLI
-    const proc = spawn("convos", ["agent", "serve", ...args], {
-      stdio: ["pipe", "pipe", "pipe"],
-      env: { ...process.env },
+  /** Role of a member, or null when the policy is enforced and they have none. */
+  function roleOf(conv: ActiveConversation, inboxId: string): AccessRole | null {
+    if (Object.keys(conv.access.roles).length === 0) return "owner";
+    return conv.access.roles[inboxId] ?? null;
+  }
+
+  function canDriveAgent(role: AccessRole | null): boolean {
+    return role === "owner" || role === "collaborator";
+  }
+
+  /** Record a message that was not forwarded to the agent because of its sender's role. */
+  function logBlockedMessage(conv: ActiveConversation, msg: { id?: string; senderInboxId: string; content: unknown }) {
+    const sender = memberName(conv, msg.senderInboxId);
+    const role = roleOf(conv, msg.senderInboxId) ?? "unknown";
+    if (headlessMode) {
+      logger.info(`\n🔇 Convos message from ${sender} (${role}) in ${conv.conversationId} not forwarded: ${msg.content}`, {
+        event: "message_blocked",
+        conversationId: conv.conversationId,
+        messageId: msg.id,
+        sender,
+        role,
+      });
+    }
+    ui?.notify(`Convos message from ${sender} (${role}) not forwarded`, "info");
+    pi.appendEntry("convos-blocked", {
+      conversationId: conv.conversationId,
+      id: msg.id,
+      senderInboxId: msg.senderInboxId,
+      role,
+      content: msg.content,
     });
+  }
 
-    agentProcess = proc;
+  // --- Outbound commands ---
 
-    stdinWriter = (cmd: object) => {
-      if (proc.stdin?.writable) {
-        proc.stdin.write(JSON.stringify(cmd) + "\n");
-      }
-    };
+  const DELIVERY_TIMEOUT_MS = 30_000;
+  const MAX_SEND_RETRIES = 2;
+  const SEND_RETRY_DELAY_MS = 1000;
+  // Errors from the serve process worth retrying
+  const TRANSIENT_ERROR = /timeout|timed out|network|unavailable|temporar|ECONN|ETIMEDOUT|rate limit|try again/i;
 
-    // Read stdout line by line for ndjson events
-    rl = createInterface({ input: proc.stdout!, terminal: false });
+  /** Write a command tagged with a requestId and wait for the matching `sent` or `error` event. */
+  function sendCommandOnce(conv: ActiveConversation, cmd: object): Promise<any> {
+    return new Promise((resolve, reject) => {
+      if (!conv.isReady || !conv.serve?.writable) {
+        reject(new SendError("Convos agent is not ready", true));
+        return;
+      }
+      const requestId = randomUUID();
+      const pending: PendingCommand = {
+        requestId,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          takePendingCommand(conv, requestId);
+          // Not retried: the message may have been delivered without a confirmation
+          reject(new SendError(`No delivery confirmation within ${DELIVERY_TIMEOUT_MS / 1000}s`, false));
+        }, DELIVERY_TIMEOUT_MS),
+      };
+      conv.pendingCommands.push(pending);
+      conv.stdinWriter({ ...cmd, requestId });
+    });
+  }
 
-    rl.on("line", (line: string) => {
-      let event: any;
+  /** Send a command and wait for delivery, retrying transient failures with backoff. */
+  async function sendCommand(conv: ActiveConversation, cmd: object): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
       try {
-        event = JSON.parse(line);
-      } catch {
-        return;
+        const sent = await sendCommandOnce(conv, cmd);
+        if ((cmd as any).type === "send") metrics.messagesOut++;
+        cacheSentMessage(conv, cmd, sent);
+        return sent;
+      } catch (err) {
+        if (!(err instanceof SendError) || !err.transient || attempt >= MAX_SEND_RETRIES) throw err;
+        await new Promise((resolve) => setTimeout(resolve, SEND_RETRY_DELAY_MS * 2 ** attempt));
       }
+    }
+  }
 
-      switch (event.event) {
-        case "ready":
-          isReady = true;
-          conversationId = event.conversationId;
-          qrCodePath = event.qrCodePath;
-          inviteUrl = event.inviteUrl;
-          persistState();
+  /** Remember our own messages, so replies to them can be quoted. */
+  function cacheSentMessage(conv: ActiveConversation, cmd: any, sent: any) {
+    if (cmd.type !== "send" || !sent?.id || !conv.conversationId) return;
+    getMessageCache().add({
+      id: sent.id,
+      conversationId: conv.conversationId,
+      senderInboxId: null,
+      senderName: null,
+      fromSelf: true,
+      text: cmd.text,
+      replyTo: cmd.replyTo,
+      sentAt: new Date().toISOString(),
+    });
+  }
 
-          if (headlessMode) {
-            // Log to stdout for headless consumers
-            console.log(`\n🔗 Convos ready: ${conversationId}`);
-            if (inviteUrl) console.log(`📱 Invite: ${inviteUrl}`);
-
-            // Show QR code inline (iTerm2 protocol) if available
-            if (qrCodePath) {
-              try {
-                const imageData = readFileSync(qrCodePath);
-                const base64 = imageData.toString("base64");
-                const filename = Buffer.from(qrCodePath).toString("base64");
-                process.stdout.write(`\x1b]1337;File=name=${filename};inline=1;width=auto;preserveAspectRatio=1:${base64}\x07\n\n`);
-              } catch {}
-            }
-
-            // Catch up on missed messages from previous sessions
-            catchUpOnMissedMessages();
-
-            pi.sendMessage({
-              customType: "convos",
-              content: `Convos agent is ready. Conversation: ${conversationId}. Use convos_send to message the human.`,
-              display: false,
-            }, { triggerTurn: false });
-          } else {
-            pi.sendMessage(
-              {
-                customType: "convos",
-                content: [
-                  `Convos agent is ready and listening for messages.`,
-                  `Conversation: ${conversationId}`,
-                  `Invite URL: ${inviteUrl}`,
-                  ``,
-                  `IMPORTANT: Only use convos_send/convos_react to reply to messages from Convos (prefixed with "[Convos message from ...]"). For messages from the terminal, respond normally as plain text without using convos tools.`,
-                ].join("\n"),
-                display: true,
-                details: { type: "ready", conversationId, inviteUrl, qrCodePath },
-              },
-              { triggerTurn: true },
-            );
-          }
-          break;
+  /**
+   * Remove and return the pending command an event answers. Events without a
+   * requestId (older CLI versions) answer the oldest pending command.
+   */
+  function takePendingCommand(conv: ActiveConversation, requestId?: string): PendingCommand | undefined {
+    const index = requestId
+      ? conv.pendingCommands.findIndex((p) => p.requestId === requestId)
+      : 0;
+    if (index < 0 || index >= conv.pendingCommands.length) return undefined;
+    const [pending] = conv.pendingCommands.splice(index, 1);
+    clearTimeout(pending.timer);
+    return pending;
+  }
 
-        case "message":
+  function rejectPendingCommands(conv: ActiveConversation, err: SendError) {
+    for (const pending of conv.pendingCommands.splice(0)) {
+      clearTimeout(pending.timer);
+      pending.reject(err);
+    }
+  }
 
-          lastMessageFromConvos = true;
+  // --- Outbox ---
 
-          // Track latest message timestamp for catch-up
-          if (event.sentAtNs) {
-            lastSeenTimestampNs = event.sentAtNs;
-            persistState();
-          }
+  // A transient failure while sending the outbox is retried after this long
+  const OUTBOX_RETRY_MS = 5_000;
 
-          // Check if this is an attachment message
-          const attachMatch = event.content?.match(/^\[remote attachment: (.+?) \(.*?\) (https?:\/\/\S+)\]$/);
-          if (attachMatch && conversationId) {
-            // Download the attachment
-            const filename = attachMatch[1];
-            const isImage = /\.(jpg|jpeg|png|gif|webp|bmp)$/i.test(filename);
-
-            if (isImage) {
-              // Download to temp file
-              const tmpDir = join(worktreeRoot ?? "/tmp", ".pi");
-              mkdirSync(tmpDir, { recursive: true });
-              const outputPath = join(tmpDir, `convos-attachment-${event.id}-${filename}`);
-
-              const downloadArgs = convosEnvFile ? ` --env-file ${convosEnvFile}` : "";
-              try {
-                execSync(
-                  `convos conversation download-attachment ${conversationId} ${event.id} -o "${outputPath}"${downloadArgs}`,
-                  { stdio: ["pipe", "pipe", "pipe"], timeout: 30000 },
-                );
-
-                // Read image and encode as base64
-                const imageData = readFileSync(outputPath);
-                const base64 = imageData.toString("base64");
-                const ext = filename.split(".").pop()?.toLowerCase() ?? "jpeg";
-                const mimeType = ext === "jpg" ? "image/jpeg" : `image/${ext}`;
-
-                lastMessageFromConvos = true;
-                pi.sendUserMessage([
-                  { type: "text", text: `[Convos image from ${event.senderInboxId}] ${filename}` },
-                  { type: "image", data: base64, mimeType },
-                ], { deliverAs: "steer" });
-
-                // Clean up temp file
-                try { unlinkSync(outputPath); } catch {}
-              } catch (e) {
-                // Download failed, send as text
-                pi.sendMessage(
-                  {
-                    customType: "convos",
-                    content: `[Convos message from ${event.senderInboxId}] Sent an image (${filename}) but download failed.`,
-                    display: true,
-                    details: {
-                      type: "message",
-                      id: event.id,
-                      senderInboxId: event.senderInboxId,
-                      contentType: event.contentType,
-                      content: event.content,
-                      sentAt: event.sentAt,
-                    },
-                  },
-                  { triggerTurn: true, deliverAs: "steer" },
-                );
-              }
-              break;
-            }
-          }
+  // Conversations whose outbox is being sent right now
+  const flushingOutbox = new Set<ActiveConversation>();
 
-          if (headlessMode) {
-            console.log(`\n💬 Convos message from ${event.senderInboxId}: ${event.content}`);
-          }
+  function readOutbox(conversationId?: string | null): PersistedOutboxEntry[] {
+    const outbox = getStateStore()?.read().outbox ?? [];
+    return conversationId ? outbox.filter((e) => e.conversationId === conversationId) : outbox;
+  }
 
-          pi.sendMessage(
-            {
-              customType: "convos",
-              content: `[Convos message from ${event.senderInboxId}] ${event.content}`,
-              display: true,
-              details: {
-                type: "message",
-                id: event.id,
-                senderInboxId: event.senderInboxId,
-                contentType: event.contentType,
-                content: event.content,
-                sentAt: event.sentAt,
-              },
-            },
-            { triggerTurn: true, deliverAs: "steer" },
-          );
-          break;
+  /** Tool calls wait in the outbox while the child is down, and behind anything already queued. */
+  function mustQueue(conv: ActiveConversation): boolean {
+    return !conv.isReady || flushingOutbox.has(conv) || readOutbox(targetConversationId(conv)).length > 0;
+  }
 
-        case "member_joined":
-          if (headlessMode) {
-            console.log(`\n✅ Member joined: ${event.inboxId}`);
-          }
+  /** Keep commands until the conversation's next `ready`. Null when there is no state file to keep them in. */
+  function queueOutbound(conv: ActiveConversation, commands: PersistedOutboxEntry["command"][]): PersistedOutboxEntry[] | null {
+    const store = getStateStore();
+    const conversationId = targetConversationId(conv);
+    if (!store || !conversationId) return null;
+    const queuedAt = new Date().toISOString();
+    const entries = commands.map((command) => ({ id: `out-${randomUUID().slice(0, 8)}`, conversationId, command, queuedAt }));
+    store.update((state) => {
+      state.outbox.push(...entries);
+    });
+    if (headlessMode) {
+      logger.info(`\n📤 Queued ${entries.length} command(s) for ${conversationId} until its Convos agent is back`, {
+        event: "outbox_queued",
+        conversationId,
+        outboxIds: entries.map((e) => e.id),
+      });
+    }
+    return entries;
+  }
 
-          pi.sendMessage(
-            {
-              customType: "convos",
-              content: `[Convos] New member joined: ${event.inboxId}`,
-              display: true,
-              details: { type: "member_joined", inboxId: event.inboxId },
-            },
-            { triggerTurn: true, deliverAs: "steer" },
-          );
-          break;
+  function describeOutboxEntry(entry: PersistedOutboxEntry): string {
+    const { command } = entry;
+    const what = command.type === "send"
+      ? `message "${quoteText(command.text)}"`
+      : command.type === "react"
+        ? `${command.action === "remove" ? "remove" : "add"} ${command.emoji} on ${command.messageId}`
+        : `file ${command.file}`;
+    return `${entry.id} — ${entry.conversationId} — ${what} (queued ${entry.queuedAt})`;
+  }
 
-        case "sent":
-          // Delivery confirmation — no need to trigger a turn
-          break;
+  async function deliverOutboxEntry(conv: ActiveConversation, entry: PersistedOutboxEntry) {
+    const { command } = entry;
+    if (command.type === "file") {
+      await transport.sendAttachment(conv.conversationId!, command.file, settings.envFile);
+    } else {
+      await sendCommand(conv, command);
+    }
+  }
 
-        case "error":
-          if (headlessMode) {
-            console.error(`\n⚠ Convos error: ${event.message}`);
+  /** Send everything queued for a conversation, oldest first, while its child stays ready. */
+  async function flushOutbox(conv: ActiveConversation) {
+    const conversationId = conv.conversationId;
+    if (!conversationId || flushingOutbox.has(conv)) return;
+    flushingOutbox.add(conv);
+    const delivered: PersistedOutboxEntry[] = [];
+    const failed: { entry: PersistedOutboxEntry; error: string }[] = [];
+    let retry = false;
+    try {
+      while (conv.isReady) {
+        const [entry] = readOutbox(conversationId);
+        if (!entry) break;
+        try {
+          await deliverOutboxEntry(conv, entry);
+          delivered.push(entry);
+        } catch (err: any) {
+          // Worth another try; anything else would fail the same way again
+          if (err instanceof SendError && err.transient) {
+            retry = true;
+            break;
           }
-
-          pi.sendMessage(
-            {
-              customType: "convos",
-              content: `[Convos error] ${event.message}`,
-              display: true,
-              details: { type: "error", message: event.message },
-            },
-            { triggerTurn: false },
-          );
-          break;
+          failed.push({ entry, error: err.message });
+        }
+        getStateStore()?.update((state) => removeOutboxEntries(state, [entry.id]));
       }
-    });
-
-    // Capture stderr for diagnostics/errors
-    const stderrLines: string[] = [];
-    if (proc.stderr) {
-      createInterface({ input: proc.stderr, terminal: false }).on("line", (line: string) => {
-        stderrLines.push(line);
-        // Keep only last 50 lines
-        if (stderrLines.length > 50) stderrLines.shift();
+    } finally {
+      flushingOutbox.delete(conv);
+    }
+    if (retry && conv.isReady) setTimeout(() => flushOutbox(conv), OUTBOX_RETRY_MS).unref?.();
+    if (delivered.length === 0 && failed.length === 0) return;
+    // Reply latency counts until a queued reply is actually delivered
+    if (delivered.some((e) => e.command.type === "send")) recordReply(conv);
+
+    const content = [
+      `[Convos] Sent ${delivered.length} queued command(s) to ${conversationId}${failed.length > 0 ? `; ${failed.length} failed` : ""}:`,
+      ...delivered.map((e) => `  ✓ ${describeOutboxEntry(e)}`),
+      ...failed.map(({ entry, error }) => `  ✗ ${describeOutboxEntry(entry)}: ${error}`),
+    ].join("\n");
+    if (headlessMode) {
+      logger[failed.length > 0 ? "warn" : "info"](content, {
+        event: "outbox_sent",
+        conversationId,
+        delivered: delivered.map((e) => e.id),
+        failed: failed.map(({ entry }) => entry.id),
       });
     }
+    pi.sendMessage(
+      {
+        customType: "convos",
+        content,
+        display: true,
+        details: { type: "outbox_sent", conversationId, delivered, failed },
+      },
+      { triggerTurn: false },
+    );
+  }
 
-    proc.on("exit", (code) => {
-      const wasReady = isReady;
-      isReady = false;
-      agentProcess = null;
-      stdinWriter = null;
-      rl?.close();
-      rl = null;
+  // --- Reactions ---
 
-      if (!wasReady && code !== 0) {
-        // Process died before becoming ready — likely an error
-        const errorDetail = stderrLines.length > 0
-          ? `\nStderr:\n${stderrLines.join("\n")}`
-          : "";
+  interface ReactionInfo {
+    emoji: string;
+    targetId: string | null;
+    action: "added" | "removed";
+  }
 
-        if (headlessMode) {
-          console.error(`⚠ Convos agent exited with code ${code} before ready.${errorDetail}`);
-        }
+  /** Extract a reaction from a `message` event, or null if it isn't one. */
+  function parseReaction(event: any): ReactionInfo | null {
+    if (!/reaction/i.test(event.contentType ?? "")) return null;
+    let content = event.content;
+    if (typeof content === "string") {
+      try { content = JSON.parse(content); } catch {}
+    }
+    if (content && typeof content === "object") {
+      return {
+        emoji: String(content.content ?? content.emoji ?? ""),
+        targetId: content.reference ?? event.reference ?? null,
+        action: content.action === "removed" ? "removed" : "added",
+      };
+    }
+    return {
+      emoji: String(content ?? "").trim(),
+      targetId: event.reference ?? null,
+      action: "added",
+    };
+  }
 
-        pi.sendMessage(
-          {
-            customType: "convos",
-            content: `[Convos] Agent process exited with code ${code} before becoming ready.${errorDetail}`,
-            display: true,
-            details: { type: "error", code, stderr: stderrLines },
-          },
-          { triggerTurn: false },
-        );
-      } else if (wasReady) {
-        if (headlessMode) {
-          console.log(`\n🔗 Convos agent exited (code ${code}).`);
-        }
+  function describeReaction(reaction: ReactionInfo): string {
+    return `${reaction.action === "removed" ? "removed reaction" : "reacted"} ${reaction.emoji}${reaction.targetId ? ` to ${reaction.targetId}` : ""}`;
+  }
 
-        pi.sendMessage(
-          {
-            customType: "convos",
-            content: `[Convos] Agent process exited (code ${code}).`,
-            display: true,
-            details: { type: "exit", code },
-          },
-          { triggerTurn: false },
-        );
-      }
-    });
+  /** Drop skin-tone modifiers and variation selectors so 👍🏽 matches 👍. */
+  function normalizeEmoji(emoji: string): string {
+    return emoji.replace(/[\u{1F3FB}-\u{1F3FF}\u{FE0F}]/gu, "");
   }
 
-  function stopAgent() {
-    if (agentProcess) {
-      stdinWriter?.({ type: "stop" });
-      const proc = agentProcess;
-      setTimeout(() => {
-        try { proc.kill("SIGTERM"); } catch {}
-      }, 2000);
-      agentProcess = null;
-      stdinWriter = null;
-      isReady = false;
-      rl?.close();
-      rl = null;
-    }
+  // --- Tool approval ---
+
+  const approvalTimeoutMs = () => settings.approval.timeoutSeconds * 1000;
+
+  const APPROVE_EMOJIS = ["👍", "✅"];
+  const DENY_EMOJIS = ["👎", "❌"];
+  const APPROVE_WORDS = ["yes", "y", "approve", "approved", "ok"];
+  const DENY_WORDS = ["no", "n", "deny", "denied", "stop"];
+
+  interface ApprovalResult {
+    approved: boolean;
+    by: string | null;
+    reason: string;
   }
 
-  // --- Auto-start in headless mode ---
+  interface PendingApproval {
+    conv: ActiveConversation;
+    toolName: string;
+    summary: string;
+    // ID of our request message, known once it is delivered
+    messageId: string | null;
+    timer: ReturnType<typeof setTimeout>;
+    resolve: (result: ApprovalResult) => void;
+  }
 
-  pi.on("session_start", async (_event, ctx) => {
-    if (ctx.hasUI) return; // Interactive mode uses /convos-start
+  const pendingApprovals: PendingApproval[] = [];
 
-    headlessMode = true;
+  function summarizeToolInput(toolName: string, input: any): string {
+    if (toolName === "bash" && input?.command) return `$ ${input.command}`;
+    if ((toolName === "write" || toolName === "edit") && input?.path) return `${toolName} ${input.path}`;
+    const json = JSON.stringify(input ?? {});
+    return json.length > 300 ? json.slice(0, 300) + "…" : json;
+  }
 
-    // Check that convos CLI is available
-    try {
-      execSync("which convos", { stdio: "ignore" });
-    } catch {
-      console.error("⚠ convos CLI not found. Install it: npm install -g @convos/cli");
-      return;
+  function finishApproval(pending: PendingApproval, result: ApprovalResult) {
+    const index = pendingApprovals.indexOf(pending);
+    if (index < 0) return;
+    pendingApprovals.splice(index, 1);
+    clearTimeout(pending.timer);
+
+    const verdict = result.approved ? "✅ Approved" : "❌ Denied";
+    sendCommand(pending.conv, {
+      type: "send",
+      text: `${verdict}: ${pending.summary}${result.by ? ` (by ${result.by})` : ""} — ${result.reason}`,
+    }).catch(() => {});
+
+    if (headlessMode) {
+      logger.info(`\n${verdict} ${pending.toolName}: ${result.reason}`, {
+        event: "approval_result",
+        conversationId: pending.conv.conversationId,
+        tool: pending.toolName,
+        approved: result.approved,
+        by: result.by ?? undefined,
+      });
     }
 
-    try {
-      // Initialize convos identity if env file is configured but doesn't exist
-      if (convosEnvFile) {
-        ensureConvosInit();
-      }
+    pi.sendMessage(
+      {
+        customType: "convos",
+        content: `[Convos] ${verdict} ${pending.toolName}: ${pending.summary} — ${result.reason}`,
+        display: true,
+        details: {
+          type: "approval_result",
+          conversationId: pending.conv.conversationId,
+          toolName: pending.toolName,
+          summary: pending.summary,
+          ...result,
+        },
+      },
+      { triggerTurn: false },
+    );
+
+    pending.resolve(result);
+  }
 
-      const args: string[] = [];
+  function requestApproval(conv: ActiveConversation, toolName: string, summary: string): Promise<ApprovalResult> {
+    return new Promise((resolve) => {
+      const pending: PendingApproval = {
+        conv,
+        toolName,
+        summary,
+        messageId: null,
+        timer: setTimeout(() => {
+          finishApproval(pending, {
+            approved: false,
+            by: null,
+            reason: `no answer within ${Math.round(approvalTimeoutMs() / 1000)}s`,
+          });
+        }, approvalTimeoutMs()),
+        resolve,
+      };
+      pendingApprovals.push(pending);
+
+      sendCommand(conv, {
+        type: "send",
+        text: [
+          `Approval needed for ${toolName}:`,
+          summary,
+          ``,
+          `React 👍 to approve or 👎 to deny, or reply "yes" / "no". Denied automatically after ${Math.round(approvalTimeoutMs() / 60_000)} min.`,
+        ].join("\n"),
+      }).then(
+        (sent) => { pending.messageId = sent?.id ?? null; },
+        (err) => finishApproval(pending, { approved: false, by: null, reason: `could not post approval request: ${err.message}` }),
+      );
 
-      // Add env-file if configured
-      if (convosEnvFile) {
-        args.push("--env-file", convosEnvFile);
+      if (headlessMode) {
+        logger.info(`\n⏳ Waiting for Convos approval of ${toolName}: ${summary}`, {
+          event: "approval_requested",
+          conversationId: conv.conversationId,
+          tool: toolName,
+        });
       }
 
-      // Restore previous session state
-      const savedState = loadPersistedState();
-      if (savedState?.lastSeenTimestampNs) {
-        lastSeenTimestampNs = savedState.lastSeenTimestampNs;
-      }
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content: `[Convos] Waiting for approval of ${toolName} in conversation ${conv.conversationId}: ${summary}`,
+          display: true,
+          details: { type: "approval_request", conversationId: conv.conversationId, toolName, summary },
+        },
+        { triggerTurn: false },
+      );
+    });
+  }
 
-      if (savedState?.conversationId) {
-        // Resume existing conversation
-        args.push(savedState.conversationId);
-      } else {
-        // Create new conversation
-        const name = convosName || getDefaultConversationName();
-        args.push("--name", name, "--profile-name", convosProfileName);
-      }
+  /**
+   * Treat a message as an answer to a pending approval if it is a 👍/👎
+   * reaction or a yes/no reply from an owner. Returns true if consumed.
+   */
+  function handleApprovalResponse(conv: ActiveConversation, event: any, senderRole: AccessRole | null): boolean {
+    const pending = pendingApprovals.filter((p) => p.conv === conv);
+    if (pending.length === 0 || senderRole !== "owner") return false;
+
+    let target: PendingApproval | undefined = pending[0];
+    let approved: boolean | null = null;
+
+    const reaction = parseReaction(event);
+    if (reaction) {
+      if (reaction.action === "removed") return false;
+      if (reaction.targetId) target = pending.find((p) => p.messageId === reaction.targetId);
+      const emoji = normalizeEmoji(reaction.emoji);
+      if (APPROVE_EMOJIS.includes(emoji)) approved = true;
+      else if (DENY_EMOJIS.includes(emoji)) approved = false;
+    } else if (typeof event.content === "string") {
+      const answer = event.content.trim().toLowerCase().replace(/[.!]+$/, "");
+      if (APPROVE_WORDS.includes(answer)) approved = true;
+      else if (DENY_WORDS.includes(answer)) approved = false;
+    }
 
-      startAgent(args);
-    } catch (err) {
-      console.error("⚠ Convos auto-start failed:", err);
+    if (!target || approved === null) return false;
+    finishApproval(target, {
+      approved,
+      by: memberName(conv, event.senderInboxId),
+      reason: approved ? "approved from Convos" : "denied from Convos",
+    });
+    return true;
+  }
+
+  function denyPendingApprovals(conv: ActiveConversation, reason: string) {
+    for (const pending of pendingApprovals.filter((p) => p.conv === conv)) {
+      finishApproval(pending, { approved: false, by: null, reason });
+    }
+  }
+
+  pi.on("tool_call", async (event) => {
+    if (!lastMessageFromConvos || !settings.approval.tools.includes(event.toolName)) return;
+
+    const conv = readyConversations().find((c) => c.conversationId === lastConvosConversationId);
+    if (!conv) {
+      return { block: true, reason: `${event.toolName} needs approval from Convos, but the conversation is not active.` };
+    }
+
+    const result = await requestApproval(conv, event.toolName, summarizeToolInput(event.toolName, event.input));
+    if (!result.approved) {
+      return { block: true, reason: `${event.toolName} was not approved from Convos: ${result.reason}.` };
     }
   });
 
-  // --- Tools ---
+  // --- Inbound attachments ---
 
-  pi.registerTool({
+  const attachmentMaxBytes = () => settings.attachments.maxMb * 1024 ** 2;
+
+  /** Root of the attachment inbox: .pi/convos-inbox in the worktree, else next to the env file. */
+  function getInboxRoot(): string {
+    if (worktreeRoot) return join(worktreeRoot, ".pi", "convos-inbox");
+    if (settings.envFile) return join(dirname(settings.envFile), "convos-inbox");
+    return join(tmpdir(), "pi-convos-inbox");
+  }
+
+  function pruneAttachmentInbox() {
+    try {
+      pruneInbox(getInboxRoot(), {
+        maxAgeMs: settings.attachments.retentionDays * 24 * 60 * 60_000,
+        maxTotalBytes: settings.attachments.inboxMaxMb * 1024 ** 2,
+      });
+    } catch (err) {
+      if (headlessMode) logger.warn(`⚠ Failed to prune Convos attachment inbox: ${errorMessage(err)}`, { event: "inbox_prune_failed" });
+    }
+  }
+
+  type DownloadResult =
+    | { ok: true; path: string; size: number }
+    | { ok: false; reason: string };
+
+  /** Download an attachment into the conversation's inbox, enforcing the size limit. */
+  async function downloadToInbox(
+    conversationId: string,
+    messageId: string,
+    filename: string,
+    announcedSize: number | null,
+  ): Promise<DownloadResult> {
+    if (announcedSize !== null && announcedSize > attachmentMaxBytes()) {
+      return { ok: false, reason: `larger than the ${formatBytes(attachmentMaxBytes())} limit` };
+    }
+
+    const dir = join(getInboxRoot(), safeFilename(conversationId));
+    mkdirSync(dir, { recursive: true });
+    const path = join(dir, `${safeFilename(messageId)}-${safeFilename(filename)}`);
+    try {
+      await transport.downloadAttachment(conversationId, messageId, path, settings.envFile);
+    } catch (err: any) {
+      metrics.downloadFailures++;
+      return { ok: false, reason: `download failed: ${err.message ?? err}` };
+    }
+
+    const { size } = statSync(path);
+    if (size > attachmentMaxBytes()) {
+      try { unlinkSync(path); } catch {}
+      return { ok: false, reason: `larger than the ${formatBytes(attachmentMaxBytes())} limit` };
+    }
+    pruneAttachmentInbox();
+    return { ok: true, path, size };
+  }
+
+  // --- Inbound batching and rate limits ---
+
+  const RATE_WINDOW_MS = 60_000;
+
+  // Turns triggered by Convos in the last minute, across all conversations
+  const turnTriggers: { at: number; senderInboxIds: string[] }[] = [];
+
+  /**
+   * Queue a message for the agent. Messages inside the debounce window become
+   * one turn; a replayed backlog is flushed as a whole once catch-up is done.
+   */
+  function queueInbound(conv: ActiveConversation, message: InboundMessage, { replayed = false } = {}) {
+    conv.inbound.push(message);
+    conv.awaitingReplySince ??= Date.now();
+    if (replayed) return;
+    const { debounceMs } = settings.routing;
+    if (debounceMs <= 0) {
+      flushInbound(conv);
+      return;
+    }
+    // Every new message restarts the window
+    if (conv.flushTimer) clearTimeout(conv.flushTimer);
+    conv.flushTimer = setTimeout(() => flushInbound(conv), debounceMs);
+  }
+
+  /**
+   * Deliver queued messages as one turn. Messages from members over their
+   * rate limit, or everything when the global limit is reached, stay queued
+   * until the window frees up.
+   */
+  function flushInbound(conv: ActiveConversation) {
+    if (conv.flushTimer) {
+      clearTimeout(conv.flushTimer);
+      conv.flushTimer = null;
+    }
+    if (conv.inbound.length === 0 || conv.stopped || conv.paused) return;
+
+    const now = Date.now();
+    while (turnTriggers.length > 0 && now - turnTriggers[0].at >= RATE_WINDOW_MS) turnTriggers.shift();
+
+    const turnsBy = (inboxId: string) => turnTriggers.filter((t) => t.senderInboxIds.includes(inboxId)).length;
+    const globalLimited = turnTriggers.length >= settings.routing.turnsPerMinute;
+    const ready = globalLimited
+      ? []
+      : conv.inbound.filter((m) => turnsBy(m.details.senderInboxId) < settings.routing.memberTurnsPerMinute);
+    const held = conv.inbound.filter((m) => !ready.includes(m));
+    conv.inbound = held;
+
+    if (ready.length > 0) {
+      turnTriggers.push({ at: now, senderInboxIds: [...new Set(ready.map((m) => m.details.senderInboxId))] });
+      deliverInbound(conv, ready);
+    }
+
+    if (held.length > 0) {
+      // Retry once the oldest trigger that blocks a held message leaves the window
+      const heldSenders = new Set(held.map((m) => m.details.senderInboxId));
+      const blocking = globalLimited
+        ? turnTriggers[0]
+        : turnTriggers.find((t) => t.senderInboxIds.some((id) => heldSenders.has(id)));
+      const delay = blocking ? blocking.at + RATE_WINDOW_MS - now : RATE_WINDOW_MS;
+      conv.flushTimer = setTimeout(() => flushInbound(conv), Math.max(delay, 0));
+
+      if (headlessMode) {
+        logger.info(`\n⏳ ${held.length} Convos message(s) in ${conv.conversationId} queued by rate limit`, {
+          event: "rate_limited",
+          conversationId: conv.conversationId,
+          queued: held.length,
+        });
+      }
+    }
+  }
+
+  /** Post queued messages as a single turn, keeping each message's ID and sender. */
+  function deliverInbound(conv: ActiveConversation, batch: InboundMessage[]) {
+    const conversationId = conv.conversationId;
+    lastMessageFromConvos = true;
+    lastConvosConversationId = conversationId;
+    lastConvosSenderRole = batch.some((m) => m.details.senderRole === "collaborator") ? "collaborator" : "owner";
+    metrics.steerTurns++;
+
+    if (batch.length === 1) {
+      pi.sendMessage(
+        { customType: "convos", content: batch[0].content, display: true, details: batch[0].details },
+        { triggerTurn: true, deliverAs: "steer" },
+      );
+      return;
+    }
+
+    pi.sendMessage(
+      {
+        customType: "convos",
+        content: [
+          `[${batch.length} Convos messages in conversation ${conversationId}]`,
+          ...batch.map((m) => `[${m.details.id}] ${m.details.senderName}: ${describeInbound(m)}`),
+        ].join("\n"),
+        display: true,
+        details: { type: "messages", conversationId, messages: batch.map((m) => m.details) },
+      },
+      { triggerTurn: true, deliverAs: "steer" },
+    );
+  }
+
+  /** Text of a queued message without its `[Convos … from …]` prefix. */
+  function describeInbound(message: InboundMessage): string {
+    return message.content.replace(/^\[Convos (?:message|file|reaction) from .+? in conversation \S+\] /, "");
+  }
+
+  // --- Agent activity ---
+
+  // What the agent is doing, for /status and /summary
+  const activity = {
+    running: false,
+    startedAt: null as number | null,
+    finishedAt: null as number | null,
+    tools: new Map<string, number>(),
+    currentTool: null as string | null,
+    lastReply: null as string | null,
+  };
+
+  /** Text of an assistant message, without thinking or tool calls. */
+  function assistantText(message: any): string | null {
+    if (message?.role !== "assistant" || !Array.isArray(message.content)) return null;
+    const text = message.content
+      .filter((part: any) => part.type === "text")
+      .map((part: any) => part.text)
+      .join("\n")
+      .trim();
+    return text || null;
+  }
+
+  pi.on("agent_start", async () => {
+    activity.running = true;
+    activity.startedAt = Date.now();
+    activity.finishedAt = null;
+    activity.tools = new Map();
+    activity.currentTool = null;
+  });
+
+  pi.on("tool_execution_start", async (event) => {
+    activity.currentTool = event.toolName;
+    activity.tools.set(event.toolName, (activity.tools.get(event.toolName) ?? 0) + 1);
+  });
+
+  pi.on("tool_execution_end", async () => {
+    activity.currentTool = null;
+  });
+
+  pi.on("turn_end", async (event) => {
+    activity.lastReply = assistantText(event.message) ?? activity.lastReply;
+  });
+
+  pi.on("agent_end", async () => {
+    activity.running = false;
+    activity.finishedAt = Date.now();
+    activity.currentTool = null;
+  });
+
+  function formatDuration(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+    const hours = Math.floor(minutes / 60);
+    return hours < 24 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  }
+
+  function formatToolCounts(): string {
+    return [...activity.tools].map(([name, count]) => count > 1 ? `${name} ×${count}` : name).join(", ");
+  }
+
+  // --- Chat commands ---
+
+  // Collaborators may only use the read-only commands
+  const CHAT_COMMANDS: Record<string, { help: string; ownerOnly: boolean }> = {
+    status: { help: "whether the agent is working, its model and uptime", ownerOnly: false },
+    summary: { help: "what the agent did in its current or last run", ownerOnly: false },
+    stop: { help: "abort the running turn", ownerOnly: true },
+    pause: { help: "hold messages from this chat instead of passing them to the agent", ownerOnly: true },
+    resume: { help: "pass messages to the agent again, including held ones", ownerOnly: true },
+    help: { help: "list these commands", ownerOnly: false },
+  };
+
+  /**
+   * Answer a chat command from the extension itself. Returns true when the
+   * message was a known command and should not reach the LLM.
+   */
+  function handleChatCommand(conv: ActiveConversation, event: any, senderRole: AccessRole | null): boolean {
+    const { commandPrefix } = settings.routing;
+    if (typeof event.content !== "string" || !event.content.startsWith(commandPrefix)) return false;
+    const name = event.content.slice(commandPrefix.length).trim().split(/\s+/)[0]?.toLowerCase() ?? "";
+    const command = CHAT_COMMANDS[name];
+    if (!command) return false;
+
+    const reply = command.ownerOnly && senderRole !== "owner"
+      ? `${commandPrefix}${name} is only available to owners.`
+      : runChatCommand(conv, name);
+
+    const senderName = memberName(conv, event.senderInboxId);
+    if (headlessMode) {
+      logger.info(`\n🕹  Convos command ${commandPrefix}${name} from ${senderName} in ${conv.conversationId}`, {
+        event: "chat_command",
+        conversationId: conv.conversationId,
+        messageId: event.id,
+        sender: senderName,
+        command: name,
+      });
+    }
+    pi.sendMessage(
+      {
+        customType: "convos",
+        content: `[Convos command ${commandPrefix}${name} from ${senderName} in conversation ${conv.conversationId}]\n${reply}`,
+        display: true,
+        details: { type: "chat_command", conversationId: conv.conversationId, command: name, senderName, reply },
+      },
+      { triggerTurn: false },
+    );
+    sendCommand(conv, { type: "send", text: reply, replyTo: event.id }).catch((err) => {
+      if (headlessMode) {
+        logger.warn(`⚠ Failed to answer ${commandPrefix}${name}: ${err.message}`, {
+          event: "send_failed",
+          conversationId: conv.conversationId,
+          messageId: event.id,
+        });
+      }
+    });
+    return true;
+  }
+
+  function runChatCommand(conv: ActiveConversation, name: string): string {
+    const { commandPrefix } = settings.routing;
+    const now = Date.now();
+    switch (name) {
+      case "status": {
+        const model = sessionCtx?.model;
+        const working = activity.running || sessionCtx?.isIdle() === false;
+        return [
+          working
+            ? `Working${activity.startedAt ? ` for ${formatDuration(now - activity.startedAt)}` : ""}${activity.currentTool ? `, running ${activity.currentTool}` : ""}.`
+            : "Idle.",
+          `Model: ${model ? `${model.provider}/${model.id}` : "unknown"}`,
+          `Up: ${formatDuration(now - loadedAt)}${conv.readyAt ? ` (this chat connected ${formatDuration(now - conv.readyAt)} ago)` : ""}`,
+          conv.paused
+            ? `Paused, ${conv.inbound.length} message(s) held.`
+            : conv.inbound.length > 0 ? `${conv.inbound.length} message(s) queued.` : "Forwarding messages.",
+        ].join("\n");
+      }
+
+      case "summary": {
+        if (!activity.startedAt) return "The agent has not run yet in this session.";
+        const duration = formatDuration((activity.finishedAt ?? now) - activity.startedAt);
+        const tools = activity.tools.size > 0 ? `Tools: ${formatToolCounts()}.` : "No tools used.";
+        const reply = activity.lastReply
+          ? `Latest reply: ${activity.lastReply.length > 300 ? activity.lastReply.slice(0, 300) + "…" : activity.lastReply}`
+          : "";
+        return [
+          activity.running ? `Working for ${duration}.` : `Last run took ${duration}, finished ${formatDuration(now - activity.finishedAt!)} ago.`,
+          tools,
+          reply,
+        ].filter(Boolean).join("\n");
+      }
+
+      case "stop": {
+        if (!activity.running && sessionCtx?.isIdle() !== false) return "Nothing is running.";
+        denyPendingApprovals(conv, "turn stopped from Convos");
+        sessionCtx?.abort();
+        return "Stopped the running turn.";
+      }
+
+      case "pause":
+        if (conv.paused) return "Already paused.";
+        conv.paused = true;
+        return `Paused. Messages will be held until ${commandPrefix}resume.`;
+
+      case "resume": {
+        if (!conv.paused) return "Not paused.";
+        conv.paused = false;
+        const held = conv.inbound.length;
+        flushInbound(conv);
+        return held > 0 ? `Resumed, passing on ${held} held message(s).` : "Resumed.";
+      }
+
+      default:
+        return Object.entries(CHAT_COMMANDS)
+          .map(([command, { help }]) => `${commandPrefix}${command} — ${help}`)
+          .join("\n");
+    }
+  }
+
+  // --- Progress updates ---
+
+  // The Convos-driven run being reported on, if any
+  let progressRun: {
+    conv: ActiveConversation;
+    startedAt: number;
+    replied: boolean;
+    // Tool calls not reported yet
+    pendingTools: string[];
+    lastUpdateAt: number;
+    timer: ReturnType<typeof setTimeout> | null;
+  } | null = null;
+
+  function sendProgress(conv: ActiveConversation, text: string) {
+    sendCommand(conv, { type: "send", text }).catch((err) => {
+      if (headlessMode) {
+        logger.warn(`⚠ Failed to send progress update: ${err.message}`, { event: "send_failed", conversationId: conv.conversationId });
+      }
+    });
+  }
+
+  function flushToolProgress() {
+    const run = progressRun;
+    if (!run) return;
+    if (run.timer) {
+      clearTimeout(run.timer);
+      run.timer = null;
+    }
+    if (run.pendingTools.length === 0) return;
+    const tools = run.pendingTools;
+    run.pendingTools = [];
+    run.lastUpdateAt = Date.now();
+    sendProgress(run.conv, `Still working (${formatDuration(run.lastUpdateAt - run.startedAt)}): ${tools.join(run.conv.progress === "verbose" ? "\n" : ", ")}`);
+  }
+
+  pi.on("agent_start", async () => {
+    progressRun = null;
+    if (!lastMessageFromConvos || !lastConvosConversationId) return;
+    const conv = findConversation(lastConvosConversationId);
+    if (!conv?.isReady || conv.progress === "off") return;
+
+    const now = Date.now();
+    progressRun = { conv, startedAt: now, replied: false, pendingTools: [], lastUpdateAt: now, timer: null };
+    sendProgress(conv, "Working on it…");
+  });
+
+  pi.on("tool_execution_start", async (event) => {
+    const run = progressRun;
+    if (!run || run.conv.progress === "basic" || event.toolName.startsWith("convos_")) return;
+
+    run.pendingTools.push(
+      run.conv.progress === "verbose"
+        ? `${event.toolName}: ${summarizeToolInput(event.toolName, event.args).split("\n")[0].slice(0, 120)}`
+        : event.toolName,
+    );
+    // Report right away when the last update is old enough, otherwise once it is
+    const wait = run.lastUpdateAt + settings.progress.intervalSeconds * 1000 - Date.now();
+    if (wait <= 0) {
+      flushToolProgress();
+    } else if (!run.timer) {
+      run.timer = setTimeout(flushToolProgress, wait);
+    }
+  });
+
+  pi.on("tool_execution_end", async (event) => {
+    // A reply queued in the outbox has not reached the conversation yet
+    if (progressRun && event.toolName === "convos_send" && !event.isError && !event.result?.details?.queued) {
+      progressRun.replied = true;
+    }
+  });
+
+  pi.on("agent_end", async () => {
+    const run = progressRun;
+    progressRun = null;
+    if (!run) return;
+    if (run.timer) clearTimeout(run.timer);
+    if (run.replied || run.conv.stopped) return;
+
+    const reply = activity.lastReply
+      ? ` Last output: ${activity.lastReply.length > 300 ? activity.lastReply.slice(0, 300) + "…" : activity.lastReply}`
+      : "";
+    sendProgress(run.conv, `Finished after ${formatDuration(Date.now() - run.startedAt)} without a reply.${reply}`);
+  });
+
+  // --- Convos identity init ---
+
+  async function ensureConvosInit() {
+    // Without an env file the CLI uses its default identity store
+    if (!settings.envFile) return;
+    if (existsSync(settings.envFile)) return;
+    mkdirSync(dirname(settings.envFile), { recursive: true });
+    await transport.init({ env: settings.env, output: settings.envFile });
+  }
+
+  // --- Catch-up on missed messages ---
+
+  /**
+   * Our own inbox IDs. With an env file there is one identity; without one the
+   * CLI keeps an identity per conversation, so every listed identity counts.
+   */
+  async function loadOwnInboxIds(): Promise<Set<string>> {
+    if (ownInboxIds) return ownInboxIds;
+    try {
+      const identities = await transport.identityList(settings.envFile);
+      ownInboxIds = new Set(identities.map((identity: any) => identity.inboxId).filter(Boolean));
+      return ownInboxIds;
+    } catch {
+      return new Set();
+    }
+  }
+
+  /** Whether an inbox is ours. Only answers once loadOwnInboxIds() has run. */
+  function isOwnInbox(inboxId: string | undefined): boolean {
+    return Boolean(inboxId && ownInboxIds?.has(inboxId));
+  }
+
+  /** Fetch stored messages of a conversation through `convos conversation messages`. */
+  function fetchMessages(conversationId: string, query: MessageQuery, signal?: AbortSignal): Promise<any[]> {
+    return transport.conversationMessages(conversationId, query, settings.envFile, { signal });
+  }
+
+  function contentTypeOf(msg: any): string {
+    const type = msg.contentType;
+    return (typeof type === "string" ? type : type?.typeId) ?? "text";
+  }
+
+  /**
+   * One-line text for a stored message of any content type. Attachments use
+   * the same `[remote attachment: …]` form as live serve events.
+   */
+  function describeContent(msg: any): string {
+    const content = msg.content;
+    if (typeof content === "string") return content;
+    if (content?.text) return content.text;
+    const reaction = parseReaction({ ...msg, contentType: contentTypeOf(msg) });
+    if (reaction) return describeReaction(reaction);
+    // Replies wrap another content type
+    if (content?.content !== undefined) {
+      return describeContent({ ...content, contentType: content.contentType ?? "text" });
+    }
+    if (content?.url && content?.filename) {
+      const size = content.contentLength ?? content.size;
+      return `[remote attachment: ${content.filename} (${size ?? "?"} bytes) ${content.url}]`;
+    }
+    if (content?.filename) return `[attachment: ${content.filename}]`;
+    return `[${contentTypeOf(msg)}]`;
+  }
+
+  /** ISO send time of a stored message. */
+  function sentAtOf(msg: any): string | undefined {
+    return msg.sentAt ?? (msg.sentAtNs ? new Date(Number(BigInt(msg.sentAtNs) / 1_000_000n)).toISOString() : undefined);
+  }
+
+  /** Reference to the message a reply answers, if any. */
+  function replyTargetOf(msg: any): string | undefined {
+    return msg.replyTo ?? msg.content?.reference ?? undefined;
+  }
+
+  /**
+   * Shape a stored message like the `message` event `agent serve` emits for
+   * it. Reactions keep their structured content for parseReaction().
+   */
+  function toMessageEvent(msg: any): any {
+    const contentType = contentTypeOf(msg);
+    return {
+      event: "message",
+      id: msg.id,
+      senderInboxId: msg.senderInboxId,
+      contentType,
+      content: parseReaction({ ...msg, contentType }) ? msg.content : describeContent(msg),
+      replyTo: replyTargetOf(msg),
+      sentAt: sentAtOf(msg),
+      sentAtNs: msg.sentAtNs,
+    };
+  }
+
+  /** Accept ISO 8601 dates and millisecond or nanosecond timestamps. */
+  function toTimestampNs(value: string): string | null {
+    if (/^\d+$/.test(value)) return value.length >= 16 ? value : String(BigInt(value) * 1_000_000n);
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? null : String(BigInt(ms) * 1_000_000n);
+  }
+
+  function formatTimestampNs(ns: string | undefined): string {
+    if (!ns) return "????-??-?? ??:??";
+    return new Date(Number(BigInt(ns) / 1_000_000n)).toISOString().slice(0, 16).replace("T", " ") + "Z";
+  }
+
+  /** Compact `time [id] sender: text` line for a stored message. */
+  function formatMessageLine(conv: ActiveConversation, msg: any): string {
+    const sender = isOwnInbox(msg.senderInboxId) ? "you" : memberName(conv, msg.senderInboxId);
+    return `${formatTimestampNs(msg.sentAtNs)} [${msg.id}] ${sender}: ${describeContent(msg).replace(/\n/g, " ")}`;
+  }
+
+  /**
+   * Page through every stored message sent after the given timestamp (or
+   * from the start with null), oldest first.
+   */
+  async function fetchMessagesSince(
+    conversationId: string,
+    sentAfterNs: string | null,
+    { sentBeforeNs = null, maxMessages = settings.catchUp.maxMessages, signal }: {
+      sentBeforeNs?: string | null;
+      maxMessages?: number;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<{ messages: any[]; truncated: boolean }> {
+    const { pageSize } = settings.catchUp;
+    const messages: any[] = [];
+    let cursor = sentAfterNs;
+    // Past maxMessages the rest stays readable through convos_history
+    while (messages.length < maxMessages) {
+      const page = await fetchMessages(conversationId, {
+        limit: pageSize,
+        direction: "ascending",
+        sentAfterNs: cursor,
+        sentBeforeNs,
+      }, signal);
+      messages.push(...page);
+      const newest = page[page.length - 1]?.sentAtNs;
+      if (page.length < pageSize || !newest || newest === cursor) {
+        return { messages, truncated: false };
+      }
+      cursor = newest;
+    }
+    return { messages, truncated: true };
+  }
+
+  /**
+   * Fetch everything sent while we were away. Small backlogs are replayed
+   * through the live message handling (roles, reactions, attachments), with
+   * chat commands and approval answers passed on as plain messages; large
+   * ones become a single summary steer.
+   */
+  async function catchUpOnMissedMessages(conv: ActiveConversation) {
+    const { conversationId, lastSeenTimestampNs } = conv;
+    if (!conversationId || !lastSeenTimestampNs) return;
+
+    try {
+      await loadOwnInboxIds();
+      const { messages, truncated } = await fetchMessagesSince(conversationId, lastSeenTimestampNs);
+      for (const msg of messages) cacheStoredMessage(conv, msg);
+      const missed = messages.filter((msg) => !isOwnInbox(msg.senderInboxId));
+      metrics.recordCatchUp(missed.length);
+      if (missed.length === 0) {
+        advanceLastSeen(conv, messages);
+        return;
+      }
+
+      for (const msg of missed) await ensureMemberKnown(conv, msg.senderInboxId);
+
+      if (headlessMode) {
+        logger.info(`\n📬 ${missed.length}${truncated ? "+" : ""} missed message(s) from Convos conversation ${conversationId}:`, {
+          event: "catch_up",
+          conversationId,
+          missed: missed.length,
+          truncated,
+        });
+      }
+
+      if (missed.length <= settings.catchUp.replayLimit && !truncated) {
+        for (const msg of missed) await handleInboundMessage(conv, toMessageEvent(msg), { replayed: true });
+        // The backlog is complete, no need to wait out the debounce window
+        flushInbound(conv);
+        advanceLastSeen(conv, messages);
+        return;
+      }
+
+      advanceLastSeen(conv, messages);
+      summarizeMissedMessages(conv, missed, lastSeenTimestampNs, truncated);
+    } catch (err) {
+      if (headlessMode) {
+        logger.warn(`⚠ Failed to catch up on missed messages: ${errorMessage(err)}`, { event: "catch_up_failed", conversationId });
+      } else {
+        ui?.notify(`Failed to catch up on missed Convos messages: ${err instanceof Error ? err.message : err}`, "warning");
+      }
+    }
+  }
+
+  function advanceLastSeen(conv: ActiveConversation, messages: any[]) {
+    const newest = messages[messages.length - 1]?.sentAtNs;
+    if (newest && (!conv.lastSeenTimestampNs || BigInt(newest) > BigInt(conv.lastSeenTimestampNs))) {
+      conv.lastSeenTimestampNs = newest;
+      persistConversation(conv);
+    }
+  }
+
+  /** Inject one steer describing a large backlog, quoting only its newest messages. */
+  function summarizeMissedMessages(conv: ActiveConversation, missed: any[], sinceNs: string, truncated: boolean) {
+    const conversationId = conv.conversationId!;
+    const allowed = missed.filter((msg) => canDriveAgent(roleOf(conv, msg.senderInboxId)));
+    for (const msg of missed) {
+      if (!allowed.includes(msg)) logBlockedMessage(conv, { ...msg, content: describeContent(msg) });
+    }
+    if (allowed.length === 0) return;
+
+    const bySender = new Map<string, number>();
+    const byType = new Map<string, number>();
+    for (const msg of allowed) {
+      const sender = memberName(conv, msg.senderInboxId);
+      bySender.set(sender, (bySender.get(sender) ?? 0) + 1);
+      byType.set(contentTypeOf(msg), (byType.get(contentTypeOf(msg)) ?? 0) + 1);
+    }
+    const count = (map: Map<string, number>) => [...map].map(([key, n]) => `${key} (${n})`).join(", ");
+    const first = allowed[0];
+    const recent = allowed.slice(-settings.catchUp.summaryRecent);
+
+    const summary = [
+      `[Missed Convos messages in conversation ${conversationId} while you were offline]`,
+      `${allowed.length}${truncated ? "+" : ""} messages between ${formatTimestampNs(first.sentAtNs)} and ${formatTimestampNs(allowed[allowed.length - 1].sentAtNs)}.`,
+      `From: ${count(bySender)}.`,
+      `Content: ${count(byType)}.`,
+      ``,
+      `Most recent ${recent.length}:`,
+      ...recent.map((msg) => formatMessageLine(conv, msg)),
+      ``,
+      `Use convos_history with after="${sinceNs}" to read the rest. If any need a response, reply via convos_send. Then continue with your work.`,
+    ].join("\n");
+
+    if (headlessMode) {
+      logger.info(`   ${count(bySender)} — summarized`, { event: "catch_up_summary", conversationId: conv.conversationId });
+    }
+
+    lastMessageFromConvos = true;
+    lastConvosConversationId = conversationId;
+    lastConvosSenderRole = allowed.some((msg) => roleOf(conv, msg.senderInboxId) === "collaborator")
+      ? "collaborator"
+      : "owner";
+    conv.awaitingReplySince ??= Date.now();
+    metrics.steerTurns++;
+    pi.sendMessage(
+      {
+        customType: "convos",
+        content: summary,
+        display: true,
+        details: {
+          type: "catch_up",
+          conversationId,
+          count: allowed.length,
+          truncated,
+          senders: Object.fromEntries(bySender),
+        },
+      },
+      { triggerTurn: true, deliverAs: "steer" },
+    );
+  }
+
+  // Track when a convos message triggers a turn vs terminal input
+  pi.on("input", async (event) => {
+    if (event.source === "interactive") {
+      lastMessageFromConvos = false;
+    }
+  });
+
+  pi.on("before_agent_start", async (event) => {
+    if (readyConversations().length === 0) return;
+
+    let convosPrompt =
+      `\n\nThe current message is from a Convos user in conversation ${lastConvosConversationId}. Reply using the convos_send tool with that conversationId. Do NOT use markdown — Convos renders plain text only.`;
+    if (lastConvosSenderRole === "collaborator") {
+      convosPrompt +=
+        " The sender is a collaborator with read-only access: you may read files, search and answer questions, but do NOT modify files, run commands that change state, commit or push on their behalf. Politely decline such requests.";
+    }
+
+    // In headless mode, all messages from the agent are potentially for Convos
+    if (headlessMode) {
+      if (lastMessageFromConvos) {
+        return { systemPrompt: event.systemPrompt + convosPrompt };
+      }
+      return;
+    }
+
+    if (lastMessageFromConvos) {
+      return { systemPrompt: event.systemPrompt + convosPrompt };
+    } else {
+      return {
+        systemPrompt: event.systemPrompt +
+          "\n\nThe current message is from the terminal. Respond normally as plain text output. Do NOT use convos_send or convos_react — those are only for Convos messages.",
+      };
+    }
+  });
+
+  // --- Supervision ---
+
+  const RESTART_BASE_DELAY_MS = 1000;
+  const RESTART_MAX_DELAY_MS = 60_000;
+  const MAX_RESTART_ATTEMPTS = 5;
+  // Counts as a crash loop when this many exits happen inside the window,
+  // even if the child reached `ready` in between
+  const CRASH_LOOP_MAX_EXITS = 8;
+  const CRASH_LOOP_WINDOW_MS = 10 * 60_000;
+  // A child that stayed ready this long resets the backoff
+  const STABLE_AFTER_MS = 60_000;
+
+  /** Rewrite serve args so a restart attaches to the conversation instead of creating a new one. */
+  function resumeArgs(args: string[], conversationId: string): string[] {
+    const flags: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === "--name") {
+        i++;
+        continue;
+      }
+      if (args[i] !== conversationId) flags.push(args[i]);
+    }
+    return [conversationId, ...flags];
+  }
+
+  function superviseExit(conv: ActiveConversation, code: number | null) {
+    const now = Date.now();
+    if (conv.readyAt && now - conv.readyAt >= STABLE_AFTER_MS) {
+      conv.restartAttempts = 0;
+    }
+    conv.readyAt = null;
+    conv.exitTimes = [...conv.exitTimes, now].filter((t) => now - t < CRASH_LOOP_WINDOW_MS);
+
+    const crashLoop = conv.exitTimes.length >= CRASH_LOOP_MAX_EXITS;
+    if (crashLoop || conv.restartAttempts >= MAX_RESTART_ATTEMPTS) {
+      conversations.delete(conv);
+      const reason = crashLoop
+        ? `crash loop detected (${conv.exitTimes.length} exits in ${CRASH_LOOP_WINDOW_MS / 60_000} minutes)`
+        : `${conv.restartAttempts} restart attempts failed`;
+
+      if (headlessMode) {
+        logger.error(`⚠ Convos agent for ${conv.conversationId ?? "new conversation"} gave up: ${reason}.`, {
+          event: "serve_gave_up",
+          conversationId: conv.conversationId,
+          reason,
+        });
+      }
+
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content: `[Convos] Gave up restarting the agent for conversation ${conv.conversationId ?? "(new)"}: ${reason}.`,
+          display: true,
+          details: { type: "restart_gave_up", conversationId: conv.conversationId, code, reason },
+        },
+        { triggerTurn: false },
+      );
+      return;
+    }
+
+    conv.restartAttempts++;
+    metrics.childRestarts++;
+    const delayMs = Math.min(RESTART_BASE_DELAY_MS * 2 ** (conv.restartAttempts - 1), RESTART_MAX_DELAY_MS);
+    if (conv.conversationId) conv.args = resumeArgs(conv.args, conv.conversationId);
+
+    if (headlessMode) {
+      logger.info(`🔄 Restarting Convos agent for ${conv.conversationId ?? "new conversation"} in ${delayMs}ms (attempt ${conv.restartAttempts}/${MAX_RESTART_ATTEMPTS}).`, {
+        event: "serve_restart",
+        conversationId: conv.conversationId,
+        attempt: conv.restartAttempts,
+        delayMs,
+      });
+    }
+
+    pi.sendMessage(
+      {
+        customType: "convos",
+        content: `[Convos] Restarting agent for conversation ${conv.conversationId ?? "(new)"} in ${Math.round(delayMs / 1000)}s (attempt ${conv.restartAttempts}/${MAX_RESTART_ATTEMPTS}).`,
+        display: true,
+        details: {
+          type: "restart",
+          conversationId: conv.conversationId,
+          code,
+          attempt: conv.restartAttempts,
+          maxAttempts: MAX_RESTART_ATTEMPTS,
+          delayMs,
+        },
+      },
+      { triggerTurn: false },
+    );
+
+    conv.restartTimer = setTimeout(() => {
+      conv.restartTimer = null;
+      if (!conv.stopped) spawnAgentProcess(conv);
+    }, delayMs);
+  }
+
+  function startAgent(args: string[]) {
+    const conv: ActiveConversation = {
+      args,
+      serve: null,
+      stdinWriter: (cmd: object) => {
+        if (conv.serve?.writable) conv.serve.send(cmd);
+      },
+      conversationId: null,
+      name: argValue(args, "--name"),
+      qrCodePath: null,
+      inviteUrl: null,
+      isReady: false,
+      lastSeenTimestampNs: null,
+      members: new Map(),
+      membersRefreshedAt: 0,
+      access: { roles: {} },
+      pendingCommands: [],
+      inbound: [],
+      flushTimer: null,
+      awaitingReplySince: null,
+      receiving: Promise.resolve(),
+      paused: false,
+      progress: settings.progress.level,
+      stopped: false,
+      everReady: false,
+      readyAt: null,
+      restartAttempts: 0,
+      exitTimes: [],
+      restartTimer: null,
+    };
+    conversations.add(conv);
+    spawnAgentProcess(conv);
+  }
+
+  function spawnAgentProcess(conv: ActiveConversation) {
+    // Capture stderr for diagnostics/errors
+    const stderrLines: string[] = [];
+
+    conv.serve = transport.serve(conv.args, {
+      onEvent: (event) => handleServeEvent(conv, event),
+      onStderr: (line) => {
+        if (headlessMode) {
+          logger.debug(line, { event: "serve_stderr", conversationId: conv.conversationId });
+        }
+        stderrLines.push(line);
+        // Keep only last 50 lines
+        if (stderrLines.length > 50) stderrLines.shift();
+      },
+      onExit: (code) => handleServeExit(conv, code, stderrLines),
+    });
+  }
+
+  /**
+   * Run inbound work for a conversation after everything that arrived before
+   * it, so a slow download or member lookup never reorders messages.
+   */
+  function receive(conv: ActiveConversation, task: () => Promise<void>) {
+    conv.receiving = conv.receiving.then(task).catch((err) => {
+      if (headlessMode) {
+        logger.error(`⚠ Failed to handle a Convos event: ${errorMessage(err)}`, { event: "event_failed", conversationId: conv.conversationId });
+      }
+    });
+  }
+
+  /**
+   * Route one inbound message (live, or replayed by catch-up) to the agent.
+   * A replayed message never runs a chat command or answers an approval:
+   * it may predate them.
+   */
+  async function handleInboundMessage(conv: ActiveConversation, event: any, { replayed = false } = {}) {
+    const conversationId = conv.conversationId;
+    metrics.messagesIn++;
+
+    // Track latest message timestamp for catch-up
+    if (event.sentAtNs) {
+      conv.lastSeenTimestampNs = event.sentAtNs;
+      persistConversation(conv);
+    }
+
+    await ensureMemberKnown(conv, event.senderInboxId);
+    const senderName = memberName(conv, event.senderInboxId);
+
+    const reaction = parseReaction(event);
+    const quoted = event.replyTo ? getMessageCache().get(event.replyTo) ?? null : null;
+    const replyContext = event.replyTo
+      ? `↩ Replying to ${describeCachedMessage(event.replyTo) ?? `message [${event.replyTo}], which is older than the recent messages (convos_history can find it)`}\n`
+      : "";
+    if (!reaction) {
+      getMessageCache().add({
+        id: event.id,
+        conversationId: conversationId!,
+        senderInboxId: event.senderInboxId,
+        senderName: conv.members.get(event.senderInboxId)?.name ?? null,
+        fromSelf: false,
+        text: String(event.content ?? ""),
+        replyTo: event.replyTo,
+        sentAt: event.sentAt,
+      });
+    }
+
+    // Observers and unknown members never drive the agent
+    const senderRole = roleOf(conv, event.senderInboxId);
+    if (!canDriveAgent(senderRole)) {
+      logBlockedMessage(conv, reaction ? { ...event, content: describeReaction(reaction) } : event);
+      return;
+    }
+
+    // Answers to approval requests are consumed here
+    if (!replayed && handleApprovalResponse(conv, event, senderRole)) return;
+
+    if (reaction) {
+      handleInboundReaction(conv, event, reaction, senderRole, { replayed });
+      return;
+    }
+
+    // So are chat commands, which never reach the LLM
+    if (!replayed && handleChatCommand(conv, event, senderRole)) return;
+
+    const details = {
+      type: "message",
+      conversationId,
+      id: event.id,
+      senderInboxId: event.senderInboxId,
+      senderName,
+      senderRole,
+      contentType: event.contentType,
+      content: event.content,
+      replyTo: event.replyTo,
+      quoted,
+      sentAt: event.sentAt,
+    };
+
+    const attachment = parseRemoteAttachment(event.content);
+    if (attachment && conversationId) {
+      await handleInboundAttachment(conv, event, attachment, details, { replayed });
+      return;
+    }
+
+    if (headlessMode) {
+      logger.info(`\n💬 Convos message from ${senderName} in ${conversationId}: ${replyContext}${event.content}`, {
+        event: "message_in",
+        conversationId,
+        messageId: event.id,
+        sender: senderName,
+        replyTo: event.replyTo,
+      });
+    }
+
+    queueInbound(conv, {
+      content: `[Convos message from ${senderName} in conversation ${conversationId}] ${replyContext}${event.content}`,
+      details,
+    }, { replayed });
+  }
+
+  /**
+   * Pass a reaction to one of our own messages on to the agent, quoting the
+   * message. Emojis in reactions.triggerEmojis start a turn; any other
+   * reaction, and any removal, waits as context for the next turn. Reactions
+   * to other members' messages are only recorded in the session.
+   */
+  function handleInboundReaction(
+    conv: ActiveConversation,
+    event: any,
+    reaction: ReactionInfo,
+    senderRole: AccessRole | null,
+    { replayed = false } = {},
+  ) {
+    const conversationId = conv.conversationId;
+    const senderName = memberName(conv, event.senderInboxId);
+    const target = reaction.targetId ? getMessageCache().get(reaction.targetId) ?? null : null;
+    const details = {
+      type: "reaction",
+      conversationId,
+      id: event.id,
+      senderInboxId: event.senderInboxId,
+      senderName,
+      senderRole,
+      emoji: reaction.emoji,
+      action: reaction.action,
+      targetId: reaction.targetId,
+      target,
+      sentAt: event.sentAt,
+    };
+
+    if (target && !target.fromSelf) {
+      pi.appendEntry("convos-reaction", details);
+      return;
+    }
+
+    const verb = reaction.action === "removed" ? `removed their ${reaction.emoji} reaction from` : `reacted ${reaction.emoji} to`;
+    const targetText = target
+      ? `your message [${target.id}]: "${quoteText(target.text)}"`
+      : `message [${reaction.targetId ?? "unknown"}], which is older than the recent messages`;
+    const content = `[Convos reaction from ${senderName} in conversation ${conversationId}] ${verb} ${targetText}`;
+
+    const triggers = reaction.action === "added"
+      && settings.reactions.triggerEmojis.some((emoji) => normalizeEmoji(emoji) === normalizeEmoji(reaction.emoji));
+    if (headlessMode) {
+      logger.info(`\n${reaction.emoji} Convos reaction from ${senderName} in ${conversationId}: ${verb} ${targetText}`, {
+        event: "reaction_in",
+        conversationId,
+        messageId: event.id,
+        sender: senderName,
+        emoji: reaction.emoji,
+        targetId: reaction.targetId ?? undefined,
+      });
+    }
+    if (triggers) {
+      queueInbound(conv, { content, details }, { replayed });
+      return;
+    }
+    pi.sendMessage({ customType: "convos", content, display: true, details }, { triggerTurn: false, deliverAs: "nextTurn" });
+  }
+
+  /**
+   * Download an attachment into the inbox and put it in the turn: images
+   * inline, text files as an excerpt, anything else as a path to read.
+   */
+  async function handleInboundAttachment(
+    conv: ActiveConversation,
+    event: any,
+    attachment: { filename: string; size: number | null },
+    details: InboundMessage["details"],
+    { replayed = false } = {},
+  ) {
+    const conversationId = conv.conversationId!;
+    const { filename } = attachment;
+    const sender = details.senderName;
+    const result = await downloadToInbox(conversationId, event.id, filename, attachment.size);
+
+    if (headlessMode) {
+      logger.info(`\n📎 Convos attachment from ${sender} in ${conversationId}: ${filename}${result.ok ? ` → ${result.path}` : ` (${result.reason})`}`, {
+        event: "attachment_in",
+        conversationId,
+        messageId: event.id,
+        sender,
+        filename,
+        path: result.ok ? result.path : undefined,
+        error: result.ok ? undefined : result.reason,
+      });
+    }
+
+    if (!result.ok) {
+      queueInbound(conv, {
+        content: `[Convos message from ${sender} in conversation ${conversationId}] Sent a file (${filename}) that was not downloaded: ${result.reason}.`,
+        details: { ...details, attachment: { filename, error: result.reason } },
+      }, { replayed });
+      return;
+    }
+
+    const { path, size } = result;
+    const header = `[Convos file from ${sender} in conversation ${conversationId}] ${filename} (${formatBytes(size)}) saved to ${path}`;
+
+    if (isImageFile(filename) && !conv.paused) {
+      // Images carry their own content block, so they are not batched
+      lastMessageFromConvos = true;
+      lastConvosConversationId = conversationId;
+      lastConvosSenderRole = details.senderRole;
+      pi.sendUserMessage([
+        { type: "text", text: header },
+        { type: "image", data: readFileSync(path).toString("base64"), mimeType: imageMimeType(filename) },
+      ], { deliverAs: "steer" });
+      return;
+    }
+
+    let content: string;
+    let excerpt: { truncated: boolean } | null = null;
+    if (isTextFile(path)) {
+      const { text, truncated, fromEnd } = readExcerpt(path);
+      excerpt = { truncated };
+      content = [
+        header,
+        truncated
+          ? `Excerpt (${fromEnd ? "last" : "first"} ${text.length} characters; read the file for the rest):`
+          : "Contents:",
+        text,
+      ].join("\n");
+    } else {
+      content = `${header}\nThis is a binary file. Inspect it with your tools if needed.`;
+    }
+
+    queueInbound(conv, {
+      content,
+      details: { ...details, attachment: { filename, path, size, excerpt: excerpt !== null, truncated: excerpt?.truncated ?? false } },
+    }, { replayed });
+  }
+
+  async function announceMemberJoined(conv: ActiveConversation, inboxId: string) {
+    await refreshMembers(conv);
+    const name = memberName(conv, inboxId);
+
+    if (headlessMode) {
+      logger.info(`\n✅ Member joined ${conv.conversationId}: ${name}`, {
+        event: "member_joined",
+        conversationId: conv.conversationId,
+        sender: name,
+        inboxId,
+      });
+    }
+
+    pi.sendMessage(
+      {
+        customType: "convos",
+        content: `[Convos] New member joined conversation ${conv.conversationId}: ${name}${name !== inboxId ? ` (${inboxId})` : ""}`,
+        display: true,
+        details: { type: "member_joined", conversationId: conv.conversationId, inboxId, name },
+      },
+      { triggerTurn: true, deliverAs: "steer" },
+    );
+  }
+
+  function handleServeEvent(conv: ActiveConversation, event: any) {
+    switch (event.event) {
+      case "ready": {
+        const isRestart = conv.everReady || conv.restartAttempts > 0;
+        conv.isReady = true;
+        conv.everReady = true;
+        conv.readyAt = Date.now();
+        conv.conversationId = event.conversationId;
+        conv.qrCodePath = event.qrCodePath;
+        conv.inviteUrl = event.inviteUrl;
+        // Restore catch-up position for resumed conversations
+        const state = loadPersistedState();
+        const saved = [...state.conversations, ...state.history]
+          .find((c) => c.conversationId === event.conversationId);
+        conv.name ??= saved?.name ?? null;
+        conv.lastSeenTimestampNs = saved?.lastSeenTimestampNs ?? conv.lastSeenTimestampNs;
+        // A conversation we have never read starts catch-up from now
+        conv.lastSeenTimestampNs ??= String(Date.now() * 1_000_000);
+        if (conv.members.size === 0 && saved?.members) {
+          conv.members = new Map(saved.members.map((m) => [m.inboxId, m]));
+        }
+        if (saved?.access) conv.access = saved.access as AccessPolicy;
+        if (isProgressLevel(saved?.progress)) conv.progress = saved.progress;
+        persistConversation(conv);
+        receive(conv, () => refreshMembers(conv));
+        pruneAttachmentInbox();
+        armScheduleTimer();
+        // Replies accepted while the child was down go out first
+        flushOutbox(conv);
+
+        const { conversationId, inviteUrl, qrCodePath } = conv;
+
+        if (isRestart) {
+          if (headlessMode) {
+            logger.info(`\n🔗 Convos agent for ${conversationId} restarted.`, { event: "serve_restarted", conversationId });
+          }
+
+          pi.sendMessage(
+            {
+              customType: "convos",
+              content: `[Convos] Agent for conversation ${conversationId} restarted after ${conv.restartAttempts} attempt(s).`,
+              display: true,
+              details: { type: "restarted", conversationId, attempts: conv.restartAttempts },
+            },
+            { triggerTurn: false },
+          );
+
+          // Pick up anything sent while the child was down
+          receive(conv, () => catchUpOnMissedMessages(conv));
+        } else if (headlessMode) {
+          // Log to stdout for headless consumers
+          logger.info(`\n🔗 Convos ready: ${conversationId}`, { event: "ready", conversationId, inviteUrl });
+          // The JSON line above carries the invite; the QR art would only garble JSON lines
+          const text = settings.log.format === "text" && logger.enabled("info");
+          if (inviteUrl && text) console.log(`📱 Invite: ${inviteUrl}`);
+
+          // Show the QR code in whatever form stdout can display
+          const qr = renderQr(qrRendererFor(Boolean(process.stdout.isTTY)), { inviteUrl, qrCodePath });
+          if (qr && text) console.log(`${qr}\n`);
+
+          // Catch up on missed messages from previous sessions
+          receive(conv, () => catchUpOnMissedMessages(conv));
+
+          pi.sendMessage({
+            customType: "convos",
+            content: `Convos agent is ready. Conversation: ${conversationId}. Use convos_send to message the human.`,
+            display: false,
+          }, { triggerTurn: false });
+        } else {
+          pi.sendMessage(
+            {
+              customType: "convos",
+              content: [
+                `Convos agent is ready and listening for messages.`,
+                `Conversation: ${conversationId}`,
+                `Invite URL: ${inviteUrl}`,
+                ``,
+                `IMPORTANT: Only use convos_send/convos_react to reply to messages from Convos (prefixed with "[Convos message from ...]"). For messages from the terminal, respond normally as plain text without using convos tools.`,
+              ].join("\n"),
+              display: true,
+              details: { type: "ready", conversationId, inviteUrl, qrCodePath },
+            },
+            { triggerTurn: true },
+          );
+
+          // Resumed conversations pick up what was sent while pi was closed
+          receive(conv, () => catchUpOnMissedMessages(conv));
+        }
+        break;
+      }
+
+      case "message":
+        receive(conv, () => handleInboundMessage(conv, event));
+        break;
+
+      case "member_joined":
+        receive(conv, () => announceMemberJoined(conv, event.inboxId));
+        break;
+
+      case "sent":
+        // Delivery confirmation — no need to trigger a turn
+        takePendingCommand(conv, event.requestId)?.resolve(event);
+        break;
+
+      case "error": {
+        // Errors answering a specific command go back to its caller
+        const failed = event.requestId ? takePendingCommand(conv, event.requestId) : undefined;
+        if (failed) {
+          failed.reject(new SendError(event.message, TRANSIENT_ERROR.test(event.message ?? "")));
+          break;
+        }
+
+        if (headlessMode) {
+          logger.error(`\n⚠ Convos error in ${conv.conversationId}: ${event.message}`, {
+            event: "serve_error",
+            conversationId: conv.conversationId,
+          });
+        }
+
+        pi.sendMessage(
+          {
+            customType: "convos",
+            content: `[Convos error in conversation ${conv.conversationId}] ${event.message}`,
+            display: true,
+            details: { type: "error", conversationId: conv.conversationId, message: event.message },
+          },
+          { triggerTurn: false },
+        );
+        break;
+      }
+    }
+  }
+
+  function handleServeExit(conv: ActiveConversation, code: number | null, stderrLines: string[]) {
+    const wasReady = conv.isReady;
+    const { conversationId } = conv;
+    conv.isReady = false;
+    conv.serve = null;
+    rejectPendingCommands(conv, new SendError("Convos agent process exited", true));
+    // Exit was requested through stopAgent()
+    if (conv.stopped) return;
+
+    if (!wasReady && code !== 0) {
+      // Process died before becoming ready — likely an error
+      const errorDetail = stderrLines.length > 0
+        ? `\nStderr:\n${stderrLines.join("\n")}`
+        : "";
+
+      if (headlessMode) {
+        logger.error(`⚠ Convos agent exited with code ${code} before ready.${errorDetail}`, {
+          event: "serve_exit",
+          conversationId: conv.conversationId,
+          code,
+          stderr: stderrLines,
+        });
+      }
+
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content: `[Convos] Agent process exited with code ${code} before becoming ready.${errorDetail}`,
+          display: true,
+          details: { type: "error", code, stderr: stderrLines },
+        },
+        { triggerTurn: false },
+      );
+    } else if (wasReady) {
+      if (headlessMode) {
+        logger.info(`\n🔗 Convos agent for ${conversationId} exited (code ${code}).`, { event: "serve_exit", conversationId, code });
+      }
+
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content: `[Convos] Agent process for conversation ${conversationId} exited (code ${code}).`,
+          display: true,
+          details: { type: "exit", conversationId, code },
+        },
+        { triggerTurn: false },
+      );
+    }
+
+    superviseExit(conv, code);
+  }
+
+  function stopAgent(conv: ActiveConversation) {
+    conversations.delete(conv);
+    conv.stopped = true;
+    denyPendingApprovals(conv, "Convos conversation stopped");
+    rejectPendingCommands(conv, new SendError("Convos conversation stopped", false));
+    if (conv.restartTimer) {
+      clearTimeout(conv.restartTimer);
+      conv.restartTimer = null;
+    }
+    if (conv.flushTimer) {
+      clearTimeout(conv.flushTimer);
+      conv.flushTimer = null;
+    }
+    conv.inbound = [];
+    const serve = conv.serve;
+    if (serve) {
+      conv.stdinWriter({ type: "stop" });
+      setTimeout(() => serve.kill(), 2000);
+    }
+    conv.isReady = false;
+  }
+
+  function stopAllAgents() {
+    for (const conv of [...conversations]) stopAgent(conv);
+  }
+
+  // --- Schedules ---
+
+  // A run found this long after its due time came due while pi was down
+  const SCHEDULE_LATE_MS = 60_000;
+  // Far-off schedules re-check at least this often, instead of one huge timeout
+  const SCHEDULE_MAX_WAIT_MS = 60 * 60_000;
+
+  let scheduleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function readSchedules(): PersistedSchedule[] {
+    return getStateStore()?.read().schedules ?? [];
+  }
+
+  /** Wake up when the next schedule of a conversation running here comes due. */
+  function armScheduleTimer() {
+    if (scheduleTimer) clearTimeout(scheduleTimer);
+    scheduleTimer = null;
+    const active = new Set(readyConversations().map((c) => c.conversationId));
+    const due = readSchedules().filter((s) => active.has(s.conversationId)).map((s) => Date.parse(s.dueAt));
+    if (due.length === 0) return;
+    const delay = Math.min(Math.max(Math.min(...due) - Date.now(), 0), SCHEDULE_MAX_WAIT_MS);
+    scheduleTimer = setTimeout(() => {
+      scheduleTimer = null;
+      runDueSchedules();
+    }, delay);
+    scheduleTimer.unref?.();
+  }
+
+  /** Run or skip every due schedule of a ready conversation, then wait for the next one. */
+  function runDueSchedules() {
+    const now = Date.now();
+    const skipped: PersistedSchedule[] = [];
+    for (const schedule of readSchedules()) {
+      const dueAt = Date.parse(schedule.dueAt);
+      if (dueAt > now) continue;
+      const conv = readyConversations().find((c) => c.conversationId === schedule.conversationId);
+      if (!conv) continue;
+      const late = now - dueAt > SCHEDULE_LATE_MS;
+      if (late && schedule.ifMissed === "skip") skipped.push(schedule);
+      else runSchedule(conv, schedule, late);
+      advanceSchedule(schedule, now);
+    }
+    if (skipped.length > 0) reportMissedSchedules(skipped, []);
+    armScheduleTimer();
+  }
+
+  /** Drop a one-shot schedule after its run; move a repeating one to its next run. */
+  function advanceSchedule(schedule: PersistedSchedule, now: number) {
+    getStateStore()?.update((state) => {
+      const current = state.schedules.find((s) => s.id === schedule.id);
+      if (!current) return;
+      if (!current.repeat) {
+        removeSchedule(state, current.id);
+        return;
+      }
+      upsertSchedule(state, {
+        ...current,
+        dueAt: nextOccurrence(new Date(current.dueAt), current.repeat, new Date(now)).toISOString(),
+        lastRunAt: new Date(now).toISOString(),
+      });
+    });
+  }
+
+  /** Route the turn a scheduled prompt runs in to its conversation, with the role it was scheduled with. */
+  function adoptScheduleOrigin(conversationId: string, schedule: PersistedSchedule) {
+    lastMessageFromConvos = true;
+    lastConvosConversationId = conversationId;
+    lastConvosSenderRole = schedule.role === "collaborator" ? "collaborator" : "owner";
+  }
+
+  pi.on("message_start", async (event) => {
+    const message = event.message as any;
+    if (message.role !== "custom" || message.customType !== "convos") return;
+    const details = message.details;
+    if (details?.type === "schedule_run" && details.schedule?.kind === "prompt") {
+      adoptScheduleOrigin(details.conversationId, details.schedule);
+    }
+  });
+
+  function runSchedule(conv: ActiveConversation, schedule: PersistedSchedule, late: boolean) {
+    const conversationId = conv.conversationId!;
+    const lateNote = late ? `, due ${schedule.dueAt}` : "";
+    if (headlessMode) {
+      logger.info(`\n⏰ Scheduled ${schedule.kind} ${schedule.id} for ${conversationId}${lateNote}: ${schedule.text}`, {
+        event: "schedule_run",
+        conversationId,
+        scheduleId: schedule.id,
+        kind: schedule.kind,
+        late,
+      });
+    }
+
+    if (schedule.kind === "prompt") {
+      // An idle agent starts the turn with this message right away; a running
+      // turn takes it as a follow-up, which speaks for Convos only once it arrives
+      if (!activity.running && sessionCtx?.isIdle() !== false) adoptScheduleOrigin(conversationId, schedule);
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content: `[Scheduled Convos prompt ${schedule.id} for conversation ${conversationId}${lateNote}] ${schedule.text}\nSend the result to the conversation with convos_send.`,
+          display: true,
+          details: { type: "schedule_run", conversationId, schedule, late },
+        },
+        { triggerTurn: true, deliverAs: "followUp" },
+      );
+      return;
+    }
+
+    sendScheduledMessage(conv, schedule).then(
+      (messageIds) => {
+        pi.sendMessage(
+          {
+            customType: "convos",
+            content: `[Convos] Sent scheduled message ${schedule.id} to ${conversationId}${lateNote}: "${schedule.text}"`,
+            display: true,
+            details: { type: "schedule_run", conversationId, schedule, late, messageIds },
+          },
+          { triggerTurn: false },
+        );
+      },
+      (err) => {
+        if (headlessMode) {
+          logger.warn(`⚠ Failed to send scheduled message ${schedule.id}: ${err.message}`, {
+            event: "send_failed",
+            conversationId,
+            scheduleId: schedule.id,
+          });
+        } else {
+          ui?.notify(`Failed to send scheduled Convos message ${schedule.id}: ${err.message}`, "warning");
+        }
+      },
+    );
+  }
+
+  async function sendScheduledMessage(conv: ActiveConversation, schedule: PersistedSchedule): Promise<string[]> {
+    const messageIds: string[] = [];
+    for (const chunk of formatOutgoingMessage(schedule.text)) {
+      const sent = await sendCommand(conv, { type: "send", text: chunk });
+      if (sent?.id) messageIds.push(sent.id);
+    }
+    return messageIds;
+  }
+
+  /**
+   * On session start, skip the runs that came due while pi was down and are
+   * marked ifMissed "skip"; the others run once their conversation is ready.
+   */
+  function handleMissedSchedules() {
+    const state = getStateStore()?.read();
+    if (!state) return;
+    const now = Date.now();
+    const saved = new Set(state.conversations.map((c) => c.conversationId));
+    const missed = state.schedules.filter((s) => saved.has(s.conversationId) && now - Date.parse(s.dueAt) > SCHEDULE_LATE_MS);
+    const skipped = missed.filter((s) => s.ifMissed === "skip");
+    for (const schedule of skipped) advanceSchedule(schedule, now);
+    if (missed.length > 0) reportMissedSchedules(skipped, missed.filter((s) => s.ifMissed === "run"));
+  }
+
+  function reportMissedSchedules(skipped: PersistedSchedule[], running: PersistedSchedule[]) {
+    const line = (s: PersistedSchedule) => `  ${s.id} in ${s.conversationId}, due ${s.dueAt}: ${s.kind} "${quoteText(s.text)}"`;
+    const content = [
+      `[Convos] ${skipped.length + running.length} scheduled run(s) came due while pi was down.`,
+      ...(skipped.length > 0 ? ["Skipped:", ...skipped.map(line)] : []),
+      ...(running.length > 0 ? ["Running late once the conversation is ready:", ...running.map(line)] : []),
+    ].join("\n");
+    if (headlessMode) {
+      logger.warn(content, {
+        event: "schedules_missed",
+        skipped: skipped.map((s) => s.id),
+        running: running.map((s) => s.id),
+      });
+    }
+    pi.sendMessage(
+      {
+        customType: "convos",
+        content,
+        display: true,
+        details: { type: "schedules_missed", skipped, running },
+      },
+      { triggerTurn: false },
+    );
+  }
+
+  function describeSchedule(schedule: PersistedSchedule): string {
+    return `${schedule.id} — ${schedule.conversationId} — ${describeRepeat(schedule.repeat)}, next ${schedule.dueAt}${schedule.ifMissed === "skip" ? " (skipped if missed)" : ""} — ${schedule.kind}: "${quoteText(schedule.text)}"`;
+  }
+
+  // --- Auto-start ---
+
+  /** `convos agent serve` args to create a new conversation, or to resume one. */
+  function serveArgs(effective: ConvosSettings, options: { conversationId?: string | null; passthrough?: string[] } = {}): string[] {
+    const args: string[] = [];
+    if (options.conversationId) args.push(options.conversationId);
+    if (effective.envFile) args.push("--env-file", effective.envFile);
+    if (!options.conversationId) {
+      args.push("--name", effective.name ?? getDefaultConversationName(), "--profile-name", effective.profileName);
+      if (effective.permissions) args.push("--permissions", effective.permissions);
+    }
+    args.push(...(options.passthrough ?? []));
+    return args;
+  }
+
+  function reportConfigWarnings() {
+    for (const warning of config.warnings) {
+      if (headlessMode) {
+        logger.warn(`⚠ Convos config: ${warning}`, { event: "config_warning" });
+      } else {
+        ui?.notify(`Convos config: ${warning}`, "warning");
+      }
+    }
+  }
+
+  pi.on("session_start", async (_event, ctx) => {
+    sessionCtx = ctx;
+    if (ctx.hasUI) {
+      ui = ctx.ui;
+    } else {
+      headlessMode = true;
+    }
+    config = loadSettings();
+    settings = config.settings;
+    logger = createLogger();
+    reportConfigWarnings();
+    startMetricsFile();
+    handleMissedSchedules();
+
+    // Interactive mode waits for /convos-start unless autoStart is set
+    if (!(settings.autoStart ?? headlessMode) || conversations.size > 0) return;
+
+    // Check that convos CLI is available
+    if (!(await transport.isAvailable())) {
+      if (headlessMode) {
+        logger.error("⚠ convos CLI not found. Install it: npm install -g @convos/cli", { event: "cli_missing" });
+      } else {
+        ui?.notify("convos CLI not found. Install it: npm install -g @convos/cli", "error");
+      }
+      return;
+    }
+
+    try {
+      // Initialize convos identity if env file is configured but doesn't exist
+      await ensureConvosInit();
+
+      // Resume every persisted conversation, or create a new one
+      const saved = loadPersistedState().conversations;
+      if (saved.length > 0) {
+        for (const { conversationId } of saved) {
+          startAgent(serveArgs(settings, { conversationId }));
+        }
+      } else {
+        startAgent(serveArgs(settings));
+      }
+    } catch (err) {
+      if (headlessMode) {
+        logger.error(`⚠ Convos auto-start failed: ${errorMessage(err)}`, { event: "auto_start_failed" });
+      } else {
+        ui?.notify(`Convos auto-start failed: ${err instanceof Error ? err.message : err}`, "error");
+      }
+    }
+  });
+
+  // --- Tools ---
+
+  /** Reply latency for the metrics: from the oldest unanswered message to this reply. */
+  function recordReply(conv: ActiveConversation): number | undefined {
+    if (conv.awaitingReplySince === null) return undefined;
+    const latencyMs = Date.now() - conv.awaitingReplySince;
+    metrics.recordReplyLatency(latencyMs);
+    conv.awaitingReplySince = null;
+    return latencyMs;
+  }
+
+  const conversationIdParam = Type.Optional(
+    Type.String({
+      description: "Conversation ID to use (optional). Defaults to the conversation of the latest Convos message.",
+    }),
+  );
+
+  pi.registerTool({
     name: "convos_send",
     label: "Convos Send",
     description:
-      "Send a message to the active Convos conversation. Only use when the system prompt says the current message is from Convos. Never use markdown — Convos renders plain text only.",
+      "Send a message to a Convos conversation. Only use when the system prompt says the current message is from Convos. Never use markdown — Convos renders plain text only. Long messages are split into several messages.",
     parameters: Type.Object({
       text: Type.String({ description: "The message text to send" }),
       replyTo: Type.Optional(
         Type.String({ description: "Message ID to reply to (optional)" }),
       ),
+      conversationId: conversationIdParam,
     }),
     async execute(_toolCallId, params) {
-      if (!stdinWriter || !isReady) {
+      const resolved = resolveConversation(params.conversationId, { includeDown: true });
+      if ("error" in resolved) {
         return {
-          content: [{ type: "text", text: headlessMode
-            ? "Convos agent is not running."
-            : "Convos agent is not running. Use /convos-start to start it."
-          }],
+          content: [{ type: "text", text: resolved.error }],
           isError: true,
         };
       }
-      const cmd: any = { type: "send", text: params.text };
-      if (params.replyTo) cmd.replyTo = params.replyTo;
-      stdinWriter(cmd);
+      const conv = resolved.conversation;
 
-      // Update lastSeen to now so we don't re-fetch our own messages on catch-up
-      lastSeenTimestampNs = String(Date.now() * 1_000_000);
-      persistState();
+      // Plain text only, split on paragraph boundaries; only the first chunk is a reply
+      const chunks = formatOutgoingMessage(params.text);
+      if (chunks.length === 0) {
+        return {
+          content: [{ type: "text", text: "Nothing to send: the message is empty." }],
+          isError: true,
+        };
+      }
+      const sentText = chunks.join("\n\n");
+
+      if (mustQueue(conv)) {
+        const entries = queueOutbound(
+          conv,
+          chunks.map((text, i) => (params.replyTo && i === 0 ? { type: "send", text, replyTo: params.replyTo } : { type: "send", text })),
+        );
+        if (!entries) {
+          return {
+            content: [{ type: "text", text: `Convos agent for ${targetConversationId(conv)} is not ready and there is no state file to queue the message in.` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Queued for ${targetConversationId(conv)} in ${chunks.length} chunk(s) until its Convos agent is back (outbox: ${entries.map((e) => e.id).join(", ")}): "${sentText}"`,
+            },
+          ],
+          details: {
+            conversationId: targetConversationId(conv),
+            text: sentText,
+            chunks: chunks.length,
+            queued: true,
+            outboxIds: entries.map((e) => e.id),
+            replyTo: params.replyTo,
+          },
+        };
+      }
+
+      const messageIds: string[] = [];
+      for (const [i, chunk] of chunks.entries()) {
+        const cmd: any = { type: "send", text: chunk };
+        if (params.replyTo && i === 0) cmd.replyTo = params.replyTo;
+        try {
+          const sent = await sendCommand(conv, cmd);
+          if (sent?.id) messageIds.push(sent.id);
+        } catch (err: any) {
+          const partial = i > 0 ? ` ${i} of ${chunks.length} chunk(s) were delivered (${messageIds.join(", ")}).` : "";
+          return {
+            content: [{ type: "text", text: `Failed to send to ${conv.conversationId}: ${err.message}.${partial}` }],
+            details: { conversationId: conv.conversationId, messageIds, chunks: chunks.length, delivered: i },
+            isError: true,
+          };
+        }
+      }
 
+      // Update lastSeen to now so we don't re-fetch our own messages on catch-up
+      conv.lastSeenTimestampNs = String(Date.now() * 1_000_000);
+      persistConversation(conv);
+
+      const latencyMs = recordReply(conv);
+      if (headlessMode) {
+        logger.info(`\n📤 Sent to ${conv.conversationId}: ${sentText}`, {
+          event: "message_out",
+          conversationId: conv.conversationId,
+          messageId: messageIds[0],
+          replyTo: params.replyTo,
+          chunks: chunks.length,
+          latencyMs,
+        });
+      }
+      const ids = messageIds.length > 0 ? ` (message ID${messageIds.length > 1 ? "s" : ""}: ${messageIds.join(", ")})` : "";
       return {
         content: [
           {
             type: "text",
-            text: `Sent: "${params.text}"${params.replyTo ? ` (reply to ${params.replyTo})` : ""}`,
+            text: `Sent to ${conv.conversationId} in ${chunks.length} chunk(s)${ids}: "${sentText}"${params.replyTo ? ` (reply to ${describeCachedMessage(params.replyTo) ?? params.replyTo})` : ""}`,
           },
         ],
-        details: { text: params.text, replyTo: params.replyTo },
+        details: {
+          conversationId: conv.conversationId,
+          text: sentText,
+          chunks: chunks.length,
+          messageIds,
+          queued: false,
+          replyTo: params.replyTo,
+          repliedTo: params.replyTo ? getMessageCache().get(params.replyTo) ?? null : null,
+        },
       };
     },
   });
@@ -622,7 +2695,7 @@ export default function (pi: ExtensionAPI) {
   pi.registerTool({
     name: "convos_react",
     label: "Convos React",
-    description: "Send a reaction emoji to a message in the active Convos conversation.",
+    description: "Send a reaction emoji to a message in a Convos conversation.",
     parameters: Type.Object({
       messageId: Type.String({ description: "The message ID to react to" }),
       emoji: Type.String({ description: "The reaction emoji (e.g. 👍, ❤️, 😂)" }),
@@ -631,75 +2704,432 @@ export default function (pi: ExtensionAPI) {
           description: "Whether to add or remove the reaction (default: add)",
         }),
       ),
+      conversationId: conversationIdParam,
+    }),
+    async execute(_toolCallId, params) {
+      const resolved = resolveConversation(params.conversationId, { includeDown: true });
+      if ("error" in resolved) {
+        return {
+          content: [{ type: "text", text: resolved.error }],
+          isError: true,
+        };
+      }
+      const cmd: any = { type: "react", messageId: params.messageId, emoji: params.emoji };
+      if (params.action) cmd.action = params.action;
+      const target = describeCachedMessage(params.messageId) ?? `message ${params.messageId}`;
+      if (mustQueue(resolved.conversation)) {
+        const entries = queueOutbound(resolved.conversation, [cmd]);
+        if (!entries) {
+          return {
+            content: [{ type: "text", text: `Convos agent for ${targetConversationId(resolved.conversation)} is not ready and there is no state file to queue the reaction in.` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [{ type: "text", text: `Queued reaction ${params.emoji} to ${target} until the Convos agent is back (outbox: ${entries[0].id})` }],
+          details: { queued: true, outboxIds: [entries[0].id] },
+        };
+      }
+      try {
+        await sendCommand(resolved.conversation, cmd);
+      } catch (err: any) {
+        return {
+          content: [{ type: "text", text: `Failed to react to ${params.messageId}: ${err.message}` }],
+          isError: true,
+        };
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Reacted with ${params.emoji} to ${target}`,
+          },
+        ],
+        details: { queued: false },
+      };
+    },
+  });
+
+  pi.registerTool({
+    name: "convos_send_file",
+    label: "Convos Send File",
+    description: "Send a file to a Convos conversation as an attachment.",
+    parameters: Type.Object({
+      file: Type.String({ description: "Path to file to send" }),
+      conversationId: conversationIdParam,
+    }),
+    async execute(_toolCallId, params, signal) {
+      const resolved = resolveConversation(params.conversationId, { includeDown: true });
+      if ("error" in resolved) {
+        return {
+          content: [{ type: "text", text: resolved.error }],
+          isError: true,
+        };
+      }
+      const conv = resolved.conversation;
+      if (mustQueue(conv)) {
+        // Queued by absolute path, and only if it exists now
+        const file = resolvePath(params.file);
+        if (!existsSync(file)) {
+          return {
+            content: [{ type: "text", text: `File not found: ${params.file}` }],
+            isError: true,
+          };
+        }
+        const entries = queueOutbound(conv, [{ type: "file", file }]);
+        if (!entries) {
+          return {
+            content: [{ type: "text", text: `Convos agent for ${targetConversationId(conv)} is not ready and there is no state file to queue the file in.` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [{ type: "text", text: `Queued file for ${targetConversationId(conv)} until its Convos agent is back (outbox: ${entries[0].id}): ${file}` }],
+          details: { queued: true, outboxIds: [entries[0].id] },
+        };
+      }
+      const { conversationId } = conv;
+      try {
+        await transport.sendAttachment(conversationId!, params.file, settings.envFile, { signal });
+        return {
+          content: [{ type: "text", text: `File sent to ${conversationId}: ${params.file}` }],
+          details: { queued: false },
+        };
+      } catch (err: any) {
+        return {
+          content: [{ type: "text", text: `Failed to send file: ${err.message}` }],
+          isError: true,
+        };
+      }
+    },
+  });
+
+  pi.registerTool({
+    name: "convos_history",
+    label: "Convos History",
+    description:
+      "Read earlier messages of a Convos conversation, e.g. when a user refers to something said before. Returns one line per message with its ID, time (UTC) and sender, oldest first; use the ID with convos_send replyTo or convos_react.",
+    parameters: Type.Object({
+      limit: Type.Optional(Type.Number({ description: "Maximum number of messages to return (default: 20, max: 100)" })),
+      before: Type.Optional(
+        Type.String({ description: "Only messages sent before this time (ISO 8601, or a ms/ns timestamp)" }),
+      ),
+      after: Type.Optional(
+        Type.String({ description: "Only messages sent after this time (ISO 8601, or a ms/ns timestamp)" }),
+      ),
+      sender: Type.Optional(Type.String({ description: "Only messages from this member (profile name or inbox ID)" })),
+      contentType: Type.Optional(
+        Type.String({ description: "Only messages of this content type, e.g. text, reply, reaction, attachment" }),
+      ),
+      search: Type.Optional(Type.String({ description: "Only messages whose text contains this (case-insensitive)" })),
+      conversationId: conversationIdParam,
+    }),
+    async execute(_toolCallId, params, signal) {
+      const resolved = resolveConversation(params.conversationId);
+      if ("error" in resolved) {
+        return {
+          content: [{ type: "text", text: resolved.error }],
+          isError: true,
+        };
+      }
+      const conv = resolved.conversation;
+
+      const sentBeforeNs = params.before ? toTimestampNs(params.before) : null;
+      const sentAfterNs = params.after ? toTimestampNs(params.after) : null;
+      if ((params.before && !sentBeforeNs) || (params.after && !sentAfterNs)) {
+        return {
+          content: [{ type: "text", text: "Invalid before/after time. Use ISO 8601 or a numeric timestamp." }],
+          isError: true,
+        };
+      }
+      if (params.contentType && !/^[\w-]+$/.test(params.contentType)) {
+        return {
+          content: [{ type: "text", text: `Invalid content type: ${params.contentType}` }],
+          isError: true,
+        };
+      }
+
+      const limit = Math.max(1, Math.min(Math.floor(params.limit ?? 20), 100));
+      // Sender and text filters run locally, so fetch a wider window for them
+      const filtered = Boolean(params.sender || params.search);
+
+      let messages: any[];
+      try {
+        await loadOwnInboxIds();
+        messages = await fetchMessages(conv.conversationId!, {
+          limit: filtered ? limit * 10 : limit,
+          direction: "descending",
+          contentType: params.contentType,
+          sentAfterNs,
+          sentBeforeNs,
+        }, signal);
+      } catch (err: any) {
+        return {
+          content: [{ type: "text", text: `Failed to read history: ${err.message}` }],
+          isError: true,
+        };
+      }
+
+      if (params.sender) {
+        const wanted = params.sender.toLowerCase();
+        messages = messages.filter((msg) =>
+          msg.senderInboxId?.toLowerCase() === wanted ||
+          conv.members.get(msg.senderInboxId)?.name?.toLowerCase() === wanted
+        );
+      }
+      if (params.search) {
+        const needle = params.search.toLowerCase();
+        messages = messages.filter((msg) => describeContent(msg).toLowerCase().includes(needle));
+      }
+      messages = messages.slice(0, limit).reverse();
+      for (const msg of messages) cacheStoredMessage(conv, msg);
+
+      const lines = messages.map((msg) => formatMessageLine(conv, msg));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: lines.length > 0
+              ? `${lines.length} message(s) in ${conv.conversationId}:\n${lines.join("\n")}`
+              : `No matching messages in ${conv.conversationId}.`,
+          },
+        ],
+        details: { conversationId: conv.conversationId, count: lines.length },
+      };
+    },
+  });
+
+  pi.registerTool({
+    name: "convos_members",
+    label: "Convos Members",
+    description: "List the members of a Convos conversation with their profile names and inbox IDs.",
+    parameters: Type.Object({
+      conversationId: conversationIdParam,
+      refresh: Type.Optional(
+        Type.Boolean({ description: "Re-fetch the roster instead of using the cached one (default: false)" }),
+      ),
+    }),
+    async execute(_toolCallId, params) {
+      const resolved = resolveConversation(params.conversationId);
+      if ("error" in resolved) {
+        return {
+          content: [{ type: "text", text: resolved.error }],
+          isError: true,
+        };
+      }
+      const conv = resolved.conversation;
+      if (params.refresh || conv.members.size === 0) await refreshMembers(conv);
+      await loadOwnInboxIds();
+
+      const members = [...conv.members.values()];
+      const lines = members.map((m) =>
+        `- ${m.name ?? "(no profile name)"} — ${m.inboxId}${isOwnInbox(m.inboxId) ? " (you)" : ""}`
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: members.length > 0
+              ? `${members.length} member(s) in ${conv.conversationId}:\n${lines.join("\n")}`
+              : `Could not load members of ${conv.conversationId}.`,
+          },
+        ],
+        details: { conversationId: conv.conversationId, members },
+      };
+    },
+  });
+
+  pi.registerTool({
+    name: "convos_schedule",
+    label: "Convos Schedule",
+    description:
+      "Schedule a message or a reminder in a Convos conversation, once or repeating, e.g. \"ping me in 2 hours with the test results\" or \"a standup summary every weekday at 9am\". Give `text` to send fixed text, or `prompt` for instructions you carry out when it comes due, replying with convos_send. Times of day are in the machine's local time zone.",
+    parameters: Type.Object({
+      at: Type.String({
+        description: 'When it first runs: "in 2h", "90m", "09:00", "9am", "tomorrow 17:30" or an ISO 8601 time',
+      }),
+      text: Type.Optional(Type.String({ description: "Message sent as is when it comes due" })),
+      prompt: Type.Optional(
+        Type.String({ description: "Instructions for a turn started when it comes due; the reply goes to the conversation" }),
+      ),
+      repeat: Type.Optional(
+        Type.String({ description: 'hourly, daily, weekdays, weekly or an interval of at least 5 minutes such as "2h" (default: once)' }),
+      ),
+      ifMissed: Type.Optional(
+        Type.Union([Type.Literal("run"), Type.Literal("skip")], {
+          description: "If pi is not running when it comes due: run it late on the next start, or skip that run (default: run)",
+        }),
+      ),
+      conversationId: conversationIdParam,
+    }),
+    async execute(_toolCallId, params) {
+      const error = (text: string) => ({ content: [{ type: "text" as const, text }], isError: true });
+      const resolved = resolveConversation(params.conversationId);
+      if ("error" in resolved) return error(resolved.error);
+      const conversationId = resolved.conversation.conversationId!;
+      if (!params.text === !params.prompt) return error("Give either text or prompt.");
+      const store = getStateStore();
+      if (!store) return error("Schedules need a state file: run pi inside a git worktree or set CONVOS_ENV_FILE.");
+
+      const now = new Date();
+      const repeat = params.repeat ? parseRepeat(params.repeat) : null;
+      if (params.repeat && !repeat) {
+        return error(`Unknown repeat "${params.repeat}". Use hourly, daily, weekdays, weekly or an interval such as "2h".`);
+      }
+      const first = parseScheduleTime(params.at, now);
+      if (!first) return error(`Could not read the time "${params.at}". Use e.g. "in 2h", "09:00", "tomorrow 9am" or an ISO 8601 time.`);
+      if (first <= now) return error(`${first.toISOString()} is in the past.`);
+
+      const schedule: PersistedSchedule = {
+        id: `sch-${randomUUID().slice(0, 8)}`,
+        conversationId,
+        kind: params.prompt ? "prompt" : "message",
+        text: (params.prompt ?? params.text)!,
+        dueAt: alignToRepeat(first, repeat).toISOString(),
+        repeat,
+        ifMissed: params.ifMissed ?? "run",
+        role: lastMessageFromConvos ? lastConvosSenderRole ?? "owner" : "owner",
+        createdAt: now.toISOString(),
+      };
+      store.update((state) => upsertSchedule(state, schedule));
+      armScheduleTimer();
+      return {
+        content: [{ type: "text", text: `Scheduled ${describeSchedule(schedule)}` }],
+        details: { schedule },
+      };
+    },
+  });
+
+  pi.registerTool({
+    name: "convos_schedule_list",
+    label: "Convos Schedules",
+    description: "List scheduled Convos messages and prompts with their IDs and next run (UTC), soonest first.",
+    parameters: Type.Object({
+      conversationId: Type.Optional(
+        Type.String({ description: "Only schedules of this conversation (default: all)" }),
+      ),
     }),
     async execute(_toolCallId, params) {
-      if (!stdinWriter || !isReady) {
-        return {
-          content: [{ type: "text", text: "Convos agent is not running." }],
-          isError: true,
-        };
-      }
-      const cmd: any = { type: "react", messageId: params.messageId, emoji: params.emoji };
-      if (params.action) cmd.action = params.action;
-      stdinWriter(cmd);
+      const schedules = readSchedules().filter((s) => !params.conversationId || s.conversationId === params.conversationId);
       return {
-        content: [{ type: "text", text: `Reacted with ${params.emoji} to message ${params.messageId}` }],
+        content: [
+          {
+            type: "text",
+            text: schedules.length > 0
+              ? `${schedules.length} schedule(s):\n${schedules.map((s) => `- ${describeSchedule(s)}`).join("\n")}`
+              : "Nothing is scheduled.",
+          },
+        ],
+        details: { schedules },
       };
     },
   });
 
   pi.registerTool({
-    name: "convos_send_file",
-    label: "Convos Send File",
-    description: "Send a file to the active Convos conversation as an attachment.",
+    name: "convos_schedule_cancel",
+    label: "Convos Cancel Schedule",
+    description: "Cancel a scheduled Convos message or prompt by its ID (see convos_schedule_list).",
     parameters: Type.Object({
-      file: Type.String({ description: "Path to file to send" }),
+      id: Type.String({ description: "Schedule ID, e.g. sch-1a2b3c4d" }),
     }),
     async execute(_toolCallId, params) {
-      if (!conversationId || !isReady) {
-        return {
-          content: [{ type: "text", text: "Convos agent is not running." }],
-          isError: true,
-        };
-      }
-      try {
-        const envArg = convosEnvFile ? ` --env-file ${convosEnvFile}` : "";
-        execSync(
-          `convos conversation send-attachment ${conversationId} ${params.file}${envArg}`,
-          { encoding: "utf-8", timeout: 30000, stdio: ["pipe", "pipe", "pipe"] },
-        );
-        return {
-          content: [{ type: "text", text: `File sent: ${params.file}` }],
-        };
-      } catch (err: any) {
+      const schedule = readSchedules().find((s) => s.id === params.id);
+      if (!schedule) {
         return {
-          content: [{ type: "text", text: `Failed to send file: ${err.message}` }],
+          content: [{ type: "text", text: `No schedule ${params.id}.` }],
           isError: true,
         };
       }
+      getStateStore()?.update((state) => removeSchedule(state, params.id));
+      armScheduleTimer();
+      return {
+        content: [{ type: "text", text: `Cancelled ${describeSchedule(schedule)}` }],
+        details: { schedule },
+      };
     },
   });
 
   // --- Message Renderer ---
 
+  /** The qr.renderer setting, or the renderer detected for this output. */
+  function qrRendererFor(isTTY: boolean): Exclude<QrRenderer, "auto"> {
+    if (settings.qr.renderer !== "auto") return settings.qr.renderer;
+    const detected = detectQrRenderer(process.env, isTTY);
+    // pi's TUI only lays out Kitty and iTerm2 images; Sixel there has to be asked for
+    return detected === "sixel" && !headlessMode ? "text" : detected;
+  }
+
+  function renderQrCode(invite: { inviteUrl?: string | null; qrCodePath?: string | null }, theme: any): string {
+    try {
+      const qr = renderQr(qrRendererFor(true), invite);
+      if (qr) return qr + "\n\n";
+    } catch {}
+    // Fall back to showing the path if there is nothing to draw
+    return invite.qrCodePath ? theme.fg("dim", `QR code: ${invite.qrCodePath}`) + "\n\n" : "";
+  }
+
   pi.registerMessageRenderer("convos", (message, _options, theme) => {
     const details = message.details as any;
     let output = "";
 
-    if (details?.type === "ready" && details.qrCodePath) {
-      // Render QR code image inline using iTerm2 inline image protocol
-      try {
-        const imageData = readFileSync(details.qrCodePath);
-        const base64 = imageData.toString("base64");
-        const filename = Buffer.from(details.qrCodePath).toString("base64");
-        output += `\x1b]1337;File=name=${filename};inline=1;width=auto;preserveAspectRatio=1:${base64}\x07\n\n`;
-      } catch {
-        // Fall back to showing the path if we can't read the image
-        output += theme.fg("dim", `QR code: ${details.qrCodePath}`) + "\n\n";
-      }
+    if (details?.type === "ready" && (details.qrCodePath || details.inviteUrl)) {
+      output += renderQrCode(details, theme);
       output += theme.fg("accent", "Convos agent is ready") + "\n";
       output += theme.fg("dim", `Conversation: `) + details.conversationId + "\n";
       output += theme.fg("dim", `Invite URL: `) + details.inviteUrl;
+    } else if (details?.type === "message" && typeof message.content === "string") {
+      output += theme.fg("accent", details.senderName ?? details.senderInboxId);
+      output += theme.fg("dim", ` · ${details.conversationId}`) + "\n";
+      output += message.content.replace(/^\[Convos (?:message|file) from .+? in conversation \S+\] /, "");
+    } else if (details?.type === "reaction" && typeof message.content === "string") {
+      output += theme.fg("accent", `${details.emoji} ${details.senderName ?? details.senderInboxId}`);
+      output += theme.fg("dim", ` · ${details.conversationId}`) + "\n";
+      output += theme.fg("dim", message.content.replace(/^\[Convos reaction from .+? in conversation \S+\] /, ""));
+    } else if (details?.type === "messages") {
+      output += theme.fg("dim", `${details.messages.length} messages · ${details.conversationId}`);
+      const senders = new Map<string, string>(
+        details.messages.map((m: any) => [`[${m.id}] ${m.senderName}: `, m.senderName]),
+      );
+      for (const line of (message.content as string).split("\n").slice(1)) {
+        // Continuation lines of multi-line messages have no sender prefix
+        const prefix = [...senders.keys()].find((p) => line.startsWith(p));
+        output += "\n" + (prefix ? theme.fg("accent", senders.get(prefix)!) + " " + line.slice(prefix.length) : line);
+      }
+    } else if (details?.type === "member_joined") {
+      output += theme.fg("accent", `${details.name ?? details.inboxId} joined`);
+      output += theme.fg("dim", ` · ${details.conversationId}`);
+    } else if (details?.type === "approval_request") {
+      output += theme.fg("warning", `⏳ Approval requested in ${details.conversationId}: `) + details.toolName + "\n";
+      output += theme.fg("dim", details.summary);
+    } else if (details?.type === "approval_result") {
+      output += details.approved
+        ? theme.fg("success", `✅ ${details.toolName} approved`)
+        : theme.fg("error", `❌ ${details.toolName} denied`);
+      output += theme.fg("dim", ` — ${details.reason}${details.by ? ` (${details.by})` : ""}`) + "\n";
+      output += theme.fg("dim", details.summary);
+    } else if (details?.type === "catch_up" && typeof message.content === "string") {
+      output += theme.fg("accent", `📬 ${details.count}${details.truncated ? "+" : ""} missed message(s)`);
+      output += theme.fg("dim", ` · ${details.conversationId}`) + "\n";
+      output += message.content.split("\n").slice(1).join("\n");
+    } else if (details?.type === "invite") {
+      output += renderQrCode(details, theme);
+      output += theme.fg("accent", details.heading) + "\n";
+      output += theme.fg("dim", `Conversation: `) + details.conversationId + "\n";
+      output += theme.fg("dim", `Invite URL: `) + (details.inviteUrl ?? "(none)");
+    } else if (details?.type === "status") {
+      output += theme.fg("accent", `${details.conversations.length} active Convos conversation(s)`);
+      for (const conv of details.conversations) {
+        output += "\n\n";
+        output += renderQrCode(conv, theme);
+        output += theme.fg("dim", `Conversation: `) + conv.conversationId + "\n";
+        output += theme.fg("dim", `Invite URL: `) + conv.inviteUrl;
+        if (conv.queued > 0) output += "\n" + theme.fg("warning", `${conv.queued} message(s) queued`);
+      }
+      if (details.metrics) {
+        output += "\n\n" + formatMetrics(details.metrics).map((line) => theme.fg("dim", line)).join("\n");
+        if (details.metricsFile) output += "\n" + theme.fg("dim", `Written to ${details.metricsFile}`);
+      }
     } else {
       output = message.content;
     }
@@ -707,97 +3137,754 @@ export default function (pi: ExtensionAPI) {
     return new Text(output, 0, 0);
   });
 
+  // --- Transcript export ---
+
+  interface ExportOptions {
+    format: TranscriptFormat;
+    since: Date | null;
+    until: Date | null;
+    outDir: string;
+    /** Download attachments next to the transcript */
+    attachments: boolean;
+    signal?: AbortSignal;
+  }
+
+  interface ExportResult {
+    path: string;
+    messages: number;
+    attachments: number;
+    /** Attachments that could not be downloaded */
+    failed: string[];
+  }
+
+  /** Default folder for exports: .pi/convos-exports in the worktree, else next to the env file. */
+  function getExportRoot(): string {
+    if (worktreeRoot) return join(worktreeRoot, ".pi", "convos-exports");
+    if (settings.envFile) return join(dirname(settings.envFile), "convos-exports");
+    return process.cwd();
+  }
+
+  function toTranscriptEntry(conv: ActiveConversation, msg: any): TranscriptEntry {
+    const contentType = contentTypeOf(msg);
+    const reaction = parseReaction({ ...msg, contentType });
+    const entry: TranscriptEntry = {
+      id: msg.id,
+      sentAt: sentAtOf(msg) ?? null,
+      senderInboxId: msg.senderInboxId ?? null,
+      sender: msg.senderInboxId ? memberName(conv, msg.senderInboxId) : "unknown",
+      fromSelf: isOwnInbox(msg.senderInboxId),
+      contentType,
+      text: describeContent(msg),
+    };
+    if (reaction) {
+      entry.reaction = reaction;
+    } else if (replyTargetOf(msg)) {
+      entry.replyTo = replyTargetOf(msg);
+    }
+    if (msg.content?.filename) entry.attachment = { filename: String(msg.content.filename), path: null };
+    return entry;
+  }
+
+  /**
+   * Write the stored history of a conversation, with resolved sender names,
+   * to a transcript file. Attachments go into a `<transcript>-files` folder
+   * beside it.
+   */
+  async function exportConversation(conv: ActiveConversation, options: ExportOptions): Promise<ExportResult> {
+    const conversationId = conv.conversationId!;
+    const toNs = (date: Date | null) => (date ? String(BigInt(date.getTime()) * 1_000_000n) : null);
+
+    await loadOwnInboxIds();
+    await refreshMembers(conv);
+    const { messages } = await fetchMessagesSince(conversationId, toNs(options.since), {
+      sentBeforeNs: toNs(options.until),
+      maxMessages: Infinity,
+      signal: options.signal,
+    });
+
+    const exportedAt = new Date();
+    const stamp = exportedAt.toISOString().slice(0, 16).replace(/[-:]/g, "").replace("T", "-");
+    const base = `${safeFilename(conv.name ?? conversationId).replace(/ /g, "-")}-${stamp}`;
+    const filesDir = join(options.outDir, `${base}-files`);
+    mkdirSync(options.outDir, { recursive: true });
+
+    const entries: TranscriptEntry[] = [];
+    const failed: string[] = [];
+    let downloaded = 0;
+    for (const msg of messages) {
+      const entry = toTranscriptEntry(conv, msg);
+      entries.push(entry);
+      if (!entry.attachment) continue;
+      if (!options.attachments) {
+        entry.attachment.error = "attachments were not exported";
+        continue;
+      }
+      const name = `${safeFilename(msg.id)}-${safeFilename(entry.attachment.filename)}`;
+      try {
+        mkdirSync(filesDir, { recursive: true });
+        await transport.downloadAttachment(conversationId, msg.id, join(filesDir, name), settings.envFile, {
+          signal: options.signal,
+        });
+        entry.attachment.path = `${base}-files/${name}`;
+        downloaded++;
+      } catch (err: any) {
+        entry.attachment.error = `download failed: ${err.message ?? err}`;
+        failed.push(entry.attachment.filename);
+      }
+    }
+
+    const path = join(options.outDir, base + transcriptExtension(options.format));
+    writeFileSync(path, renderTranscript({
+      conversationId,
+      name: conv.name ?? null,
+      exportedAt: exportedAt.toISOString(),
+      since: options.since?.toISOString() ?? null,
+      until: options.until?.toISOString() ?? null,
+      entries,
+    }, options.format));
+    return { path, messages: entries.length, attachments: downloaded, failed };
+  }
+
   // --- Commands (interactive mode only) ---
 
+  /**
+   * Shared checks of /convos-start and /convos-new: the CLI is installed, the
+   * flags parse, and an identity exists. Null after notifying what failed.
+   */
+  async function prepareStart(
+    args: string,
+    ctx: ExtensionContext,
+  ): Promise<{ startArgs: StartArgs; effective: ConvosSettings } | null> {
+    // Check that convos CLI is installed
+    if (!(await transport.isAvailable())) {
+      ctx.ui.notify(
+        "convos CLI not found. Install it: npm install -g @convos/cli",
+        "error",
+      );
+      return null;
+    }
+
+    let startArgs: StartArgs;
+    try {
+      startArgs = parseStartArgs(args);
+    } catch (err: any) {
+      ctx.ui.notify(err.message, "warning");
+      return null;
+    }
+
+    try {
+      await ensureConvosInit();
+    } catch (err: any) {
+      ctx.ui.notify(`Could not create a Convos identity: ${err.message}`, "error");
+      return null;
+    }
+    return { startArgs, effective: withStartArgs(config, startArgs).settings };
+  }
+
+  /** Start a new conversation, named from settings or after project and branch. */
+  function startNewConversation(effective: ConvosSettings, passthrough: string[], ctx: ExtensionContext) {
+    const convName = effective.name ?? getDefaultConversationName();
+    ctx.ui.notify(`Starting new Convos conversation: ${convName}...`, "info");
+    startAgent(serveArgs({ ...effective, name: convName }, { passthrough }));
+  }
+
   pi.registerCommand("convos-start", {
     description:
-      'Start the Convos agent. Pass flags for `convos agent serve`, e.g.: /convos-start --name "Bot" --profile-name "🤖 AI"',
+      'Start a Convos conversation. Pass flags for `convos agent serve`, e.g.: /convos-start --name "Bot" --profile-name "🤖 AI"',
     handler: async (args, ctx) => {
-      if (agentProcess) {
-        ctx.ui.notify("Convos agent is already running", "warning");
+      const prepared = await prepareStart(args ?? "", ctx);
+      if (!prepared) return;
+      const { startArgs, effective } = prepared;
+      const { conversationId, passthrough } = startArgs;
+
+      if (conversationId) {
+        // Attach to an explicit conversation, given by ID or by the name of a saved one
+        const saved = findSavedConversation(loadPersistedState(), conversationId);
+        const targetId = saved?.conversationId ?? conversationId;
+        if (findConversation(targetId)) {
+          ctx.ui.notify(`Conversation ${targetId} is already active`, "warning");
+          return;
+        }
+        const label = saved?.name ? `"${saved.name}" (${targetId})` : targetId;
+        ctx.ui.notify(`Starting Convos agent for ${label}...`, "info");
+        startAgent(serveArgs(effective, { conversationId: targetId, passthrough }));
         return;
       }
 
-      // Check that convos CLI is installed
-      try {
-        const { execSync } = await import("node:child_process");
-        execSync("which convos", { stdio: "ignore" });
-      } catch {
+      if (conversations.size > 0 && !startArgs.overrides.name) {
         ctx.ui.notify(
-          "convos CLI not found. Install it: npm install -g @convos/cli",
-          "error",
+          "Convos agent is already running. Pass a conversation ID or --name to start another conversation.",
+          "warning",
         );
         return;
       }
 
-      const argList = args
-        ? args.match(/"[^"]*"|\S+/g)?.map((a) => a.replace(/^"|"$/g, "")) ?? []
-        : [];
-
-      // If no conversation ID provided as argument, try to reuse persisted one
-      const hasConversationArg = argList.some((a) => !a.startsWith("-"));
-      const persistedId = loadPersistedConversation();
+      // Nothing running yet — reuse persisted conversations if there are any
+      const persisted = conversations.size === 0 ? loadPersistedState().conversations : [];
 
-      if (!hasConversationArg && persistedId) {
-        // Attach to existing conversation
-        argList.unshift(persistedId);
-        ctx.ui.notify(`Resuming conversation ${persistedId}...`, "info");
-      } else if (!hasConversationArg) {
-        // New conversation — derive name from project and branch
-        const convName = convosName || getDefaultConversationName();
-        argList.push("--name", convName, "--profile-name", convosProfileName);
-        ctx.ui.notify(`Starting new Convos conversation: ${convName}...`, "info");
+      if (persisted.length > 0) {
+        for (const saved of persisted) {
+          ctx.ui.notify(`Resuming conversation ${saved.conversationId}...`, "info");
+          startAgent(serveArgs(effective, { conversationId: saved.conversationId, passthrough }));
+        }
       } else {
-        ctx.ui.notify("Starting Convos agent...", "info");
+        startNewConversation(effective, passthrough, ctx);
       }
+    },
+  });
 
-      startAgent(argList);
+  pi.registerCommand("convos-new", {
+    description:
+      'Start a new Convos conversation, leaving saved ones alone. Takes the same flags as /convos-start, e.g.: /convos-new --name "Bot"',
+    handler: async (args, ctx) => {
+      const prepared = await prepareStart(args ?? "", ctx);
+      if (!prepared) return;
+      const { startArgs, effective } = prepared;
+      if (startArgs.conversationId) {
+        ctx.ui.notify(`/convos-new takes no conversation ID. Use /convos-start ${startArgs.conversationId} to resume one.`, "warning");
+        return;
+      }
+      startNewConversation(effective, startArgs.passthrough, ctx);
     },
   });
 
   pi.registerCommand("convos-stop", {
-    description: "Stop the Convos agent",
-    handler: async (_args, ctx) => {
-      if (!agentProcess) {
+    description: "Stop the Convos agent. Pass a conversation ID to stop only that conversation",
+    handler: async (args, ctx) => {
+      if (conversations.size === 0) {
         ctx.ui.notify("Convos agent is not running", "info");
         return;
       }
-      stopAgent();
+      const targetId = args?.trim();
+      if (targetId) {
+        const conv = findConversation(targetId);
+        if (!conv) {
+          ctx.ui.notify(`Conversation ${targetId} is not active`, "warning");
+          return;
+        }
+        archivePersistedConversation(conv);
+        stopAgent(conv);
+        ctx.ui.notify(`Convos conversation ${targetId} stopped`, "info");
+        return;
+      }
+      for (const conv of conversations) archivePersistedConversation(conv);
+      stopAllAgents();
       ctx.ui.notify("Convos agent stopped", "info");
     },
   });
 
-  pi.registerCommand("convos-status", {
-    description: "Show Convos agent status and QR code",
+  pi.registerCommand("convos-history", {
+    description: "List conversations of this worktree, including stopped ones that /convos-start <name> can resume",
     handler: async (_args, ctx) => {
-      if (!agentProcess || !isReady) {
-        ctx.ui.notify("Convos agent is not running", "info");
-      } else {
-        pi.sendMessage(
-          {
-            customType: "convos",
-            content: [
-              `Convos agent is running.`,
-              `Conversation: ${conversationId}`,
-              `Invite URL: ${inviteUrl}`,
-            ].join("\n"),
-            display: true,
-            details: { type: "ready", conversationId, inviteUrl, qrCodePath },
+      const state = loadPersistedState();
+      if (state.conversations.length === 0 && state.history.length === 0) {
+        ctx.ui.notify("No saved Convos conversations", "info");
+        return;
+      }
+      const line = (c: PersistedConversation, when: string) =>
+        `  ${c.name ?? "(unnamed)"} — ${c.conversationId} — ${when}`;
+      const lines: string[] = [];
+      if (state.conversations.length > 0) {
+        lines.push("Resumed on start:");
+        for (const c of state.conversations) {
+          lines.push(line(c, findConversation(c.conversationId) ? "running" : `last active ${c.updatedAt?.slice(0, 16).replace("T", " ") ?? "?"}`));
+        }
+      }
+      if (state.history.length > 0) {
+        lines.push("Stopped:");
+        for (const c of state.history) lines.push(line(c, `stopped ${c.stoppedAt.slice(0, 16).replace("T", " ")}`));
+      }
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content: lines.join("\n"),
+          display: true,
+          details: { type: "history", conversations: state.conversations, history: state.history },
+        },
+        { triggerTurn: false },
+      );
+    },
+  });
+
+  // Also usable headless, where the summary goes to the log
+  pi.registerCommand("convos-status", {
+    description: "Show every active Convos conversation and its QR code, plus message and reply metrics",
+    handler: async () => {
+      const ready = readyConversations();
+      const snapshot = metrics.snapshot();
+      const content = [
+        ready.length === 0 ? "Convos agent is not running." : `Convos agent is running ${ready.length} conversation(s).`,
+        ...ready.map((c) =>
+          `Conversation: ${c.conversationId} — Invite URL: ${c.inviteUrl}${c.inbound.length > 0 ? ` — ${c.inbound.length} message(s) queued` : ""}`
+        ),
+        ...formatMetrics(snapshot),
+      ].join("\n");
+      if (headlessMode) logger.info(content, { event: "status", metrics: snapshot });
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content,
+          display: true,
+          details: {
+            type: "status",
+            conversations: ready.map(({ conversationId, inviteUrl, qrCodePath, inbound }) => ({
+              conversationId,
+              inviteUrl,
+              qrCodePath,
+              queued: inbound.length,
+            })),
+            metrics: snapshot,
+            metricsFile: getMetricsPath(),
           },
-          { triggerTurn: false },
-        );
+        },
+        { triggerTurn: false },
+      );
+    },
+  });
+
+  pi.registerCommand("convos-access", {
+    description:
+      "Show or edit who may drive the agent from Convos: /convos-access [set <member> <owner|collaborator|observer> | remove <member> | clear] [conversationId]",
+    handler: async (args, ctx) => {
+      const parts = args?.trim() ? args.trim().split(/\s+/) : [];
+      const action = ["set", "remove", "clear"].includes(parts[0]) ? parts.shift() : "show";
+      // The conversation ID, if any, comes after the action's own arguments
+      const argCount = action === "set" ? 2 : action === "remove" ? 1 : 0;
+      const rest = parts.slice(0, argCount);
+      const resolved = resolveConversation(parts[argCount]);
+      if ("error" in resolved) {
+        ctx.ui.notify(resolved.error, "warning");
+        return;
+      }
+      const conv = resolved.conversation;
+
+      // Accept a profile name as well as an inbox ID
+      const toInboxId = (member: string) =>
+        [...conv.members.values()].find((m) => m.name?.toLowerCase() === member.toLowerCase())?.inboxId ?? member;
+
+      if (action === "set") {
+        const [member, role] = rest;
+        if (!member || !ACCESS_ROLES.includes(role as AccessRole)) {
+          ctx.ui.notify("Usage: /convos-access set <member> <owner|collaborator|observer> [conversationId]", "warning");
+          return;
+        }
+        const inboxId = toInboxId(member);
+        conv.access.roles[inboxId] = role as AccessRole;
+        persistConversation(conv);
+        ctx.ui.notify(`${memberName(conv, inboxId)} is now ${role} in ${conv.conversationId}`, "info");
+        return;
+      }
+
+      if (action === "remove") {
+        const [member] = rest;
+        if (!member) {
+          ctx.ui.notify("Usage: /convos-access remove <member> [conversationId]", "warning");
+          return;
+        }
+        const inboxId = toInboxId(member);
+        delete conv.access.roles[inboxId];
+        persistConversation(conv);
+        ctx.ui.notify(`Removed role of ${memberName(conv, inboxId)} in ${conv.conversationId}`, "info");
+        return;
+      }
+
+      if (action === "clear") {
+        conv.access = { roles: {} };
+        persistConversation(conv);
+        ctx.ui.notify(`Access policy cleared — ${conv.conversationId} is open to all members`, "info");
+        return;
+      }
+
+      const entries = Object.entries(conv.access.roles);
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content: entries.length === 0
+            ? `Convos conversation ${conv.conversationId} is open: every member can drive the agent.`
+            : [
+                `Access policy for ${conv.conversationId} (unknown members are observers):`,
+                ...entries.map(([inboxId, role]) => `- ${memberName(conv, inboxId)} (${inboxId}): ${role}`),
+              ].join("\n"),
+          display: true,
+          details: { type: "access", conversationId: conv.conversationId, roles: conv.access.roles },
+        },
+        { triggerTurn: false },
+      );
+    },
+  });
+
+  pi.registerCommand("convos-progress", {
+    description:
+      "Show or set progress updates sent to Convos while the agent works: /convos-progress [off|basic|tools|verbose] [conversationId]",
+    handler: async (args, ctx) => {
+      const parts = args?.trim() ? args.trim().split(/\s+/) : [];
+      const level = isProgressLevel(parts[0]) ? parts[0] : null;
+      if (level) parts.shift();
+      const resolved = resolveConversation(parts[0]);
+      if ("error" in resolved) {
+        ctx.ui.notify(resolved.error, "warning");
+        return;
+      }
+      const conv = resolved.conversation;
+
+      if (!level) {
+        ctx.ui.notify(`Progress updates for ${conv.conversationId}: ${conv.progress}`, "info");
+        return;
+      }
+      conv.progress = level;
+      persistConversation(conv);
+      ctx.ui.notify(`Progress updates for ${conv.conversationId} set to ${level}`, "info");
+    },
+  });
+
+  // --- Conversation management commands ---
+
+  /**
+   * Split command args into the action's own tokens and a trailing
+   * conversation ID, which is only taken when it names an active conversation.
+   */
+  function splitConversationArg(tokens: string[]): { rest: string[]; conversationId: string | undefined } {
+    const last = tokens[tokens.length - 1];
+    if (last && findConversation(last)) return { rest: tokens.slice(0, -1), conversationId: last };
+    return { rest: tokens, conversationId: undefined };
+  }
+
+  function showInvite(conv: ActiveConversation, heading: string) {
+    pi.sendMessage(
+      {
+        customType: "convos",
+        content: `${heading}\nConversation: ${conv.conversationId}\nInvite URL: ${conv.inviteUrl ?? "(none)"}`,
+        display: true,
+        details: { type: "invite", heading, conversationId: conv.conversationId, inviteUrl: conv.inviteUrl, qrCodePath: conv.qrCodePath },
+      },
+      { triggerTurn: false },
+    );
+  }
+
+  pi.registerCommand("convos-invite", {
+    description:
+      "Show the invite of a Convos conversation, replace it with a new one, or revoke it: /convos-invite [rotate|revoke] [conversationId]",
+    handler: async (args, ctx) => {
+      const parts = args?.trim() ? args.trim().split(/\s+/) : [];
+      const action = ["rotate", "revoke"].includes(parts[0]) ? parts.shift() : "show";
+      const resolved = resolveConversation(parts[0]);
+      if ("error" in resolved) {
+        ctx.ui.notify(resolved.error, "warning");
+        return;
+      }
+      const conv = resolved.conversation;
+      const conversationId = conv.conversationId!;
+
+      if (action === "show") {
+        showInvite(conv, "Current invite");
+        return;
+      }
+
+      try {
+        if (action === "revoke") {
+          await transport.revokeInvite(conversationId, settings.envFile);
+          conv.inviteUrl = null;
+          conv.qrCodePath = null;
+          persistConversation(conv);
+          ctx.ui.notify(`Invites to ${conversationId} revoked. Use /convos-invite rotate to create a new one.`, "info");
+          return;
+        }
+        const invite = await transport.createInvite(conversationId, settings.envFile);
+        conv.inviteUrl = invite.inviteUrl;
+        conv.qrCodePath = invite.qrCodePath;
+        persistConversation(conv);
+        showInvite(conv, "New invite — the previous one no longer works");
+      } catch (err: any) {
+        ctx.ui.notify(`Failed to ${action} the invite of ${conversationId}: ${err.message}`, "error");
+      }
+    },
+  });
+
+  pi.registerCommand("convos-members", {
+    description: "List the members of a Convos conversation, or remove one: /convos-members [remove <member>] [conversationId]",
+    handler: async (args, ctx) => {
+      const { rest, conversationId } = splitConversationArg(args?.trim() ? args.trim().split(/\s+/) : []);
+      const resolved = resolveConversation(conversationId);
+      if ("error" in resolved) {
+        ctx.ui.notify(resolved.error, "warning");
+        return;
+      }
+      const conv = resolved.conversation;
+
+      if (rest[0] === "remove") {
+        const member = rest.slice(1).join(" ");
+        if (!member) {
+          ctx.ui.notify("Usage: /convos-members remove <member> [conversationId]", "warning");
+          return;
+        }
+        // Accept a profile name as well as an inbox ID
+        const inboxId = [...conv.members.values()].find((m) => m.name?.toLowerCase() === member.toLowerCase())?.inboxId ?? member;
+        const name = memberName(conv, inboxId);
+        if (!(await ctx.ui.confirm("Remove member?", `Remove ${name} from ${conv.conversationId}?`))) return;
+        try {
+          await transport.removeMembers(conv.conversationId!, [inboxId], settings.envFile);
+        } catch (err: any) {
+          ctx.ui.notify(`Failed to remove ${name}: ${err.message}`, "error");
+          return;
+        }
+        conv.members.delete(inboxId);
+        delete conv.access.roles[inboxId];
+        persistConversation(conv);
+        ctx.ui.notify(`Removed ${name} from ${conv.conversationId}`, "info");
+        return;
+      }
+      if (rest.length > 0) {
+        ctx.ui.notify("Usage: /convos-members [remove <member>] [conversationId]", "warning");
+        return;
+      }
+
+      await refreshMembers(conv);
+      await loadOwnInboxIds();
+      const members = [...conv.members.values()];
+      const lines = members.map((m) => {
+        const role = Object.keys(conv.access.roles).length > 0 ? `, ${roleOf(conv, m.inboxId) ?? "observer"}` : "";
+        return `- ${m.name ?? "(no profile name)"} — ${m.inboxId}${isOwnInbox(m.inboxId) ? " (you)" : role}`;
+      });
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content: `${members.length} member(s) in ${conv.conversationId}:\n${lines.join("\n")}`,
+          display: true,
+          details: { type: "members", conversationId: conv.conversationId, members },
+        },
+        { triggerTurn: false },
+      );
+    },
+  });
+
+  pi.registerCommand("convos-rename", {
+    description: "Rename a Convos conversation: /convos-rename <name> [conversationId]",
+    handler: async (args, ctx) => {
+      const { rest, conversationId } = splitConversationArg(tokenizeArgs(args ?? ""));
+      const name = rest.join(" ").trim();
+      if (!name) {
+        ctx.ui.notify("Usage: /convos-rename <name> [conversationId]", "warning");
+        return;
+      }
+      const resolved = resolveConversation(conversationId);
+      if ("error" in resolved) {
+        ctx.ui.notify(resolved.error, "warning");
+        return;
+      }
+      const conv = resolved.conversation;
+      try {
+        await transport.renameConversation(conv.conversationId!, name, settings.envFile);
+      } catch (err: any) {
+        ctx.ui.notify(`Failed to rename ${conv.conversationId}: ${err.message}`, "error");
+        return;
       }
+      conv.name = name;
+      persistConversation(conv);
+      ctx.ui.notify(`Renamed ${conv.conversationId} to "${name}"`, "info");
+    },
+  });
+
+  pi.registerCommand("convos-leave", {
+    description: "Leave a Convos conversation for good and forget its saved state: /convos-leave [conversationId]",
+    handler: async (args, ctx) => {
+      const resolved = resolveConversation(args?.trim() || undefined);
+      if ("error" in resolved) {
+        ctx.ui.notify(resolved.error, "warning");
+        return;
+      }
+      const conv = resolved.conversation;
+      const conversationId = conv.conversationId!;
+      const label = conv.name ? `"${conv.name}" (${conversationId})` : conversationId;
+      if (!(await ctx.ui.confirm("Leave conversation?", `Leave ${label}? Members keep the chat, but the agent can't rejoin without a new invite.`))) {
+        return;
+      }
+      try {
+        await transport.leaveConversation(conversationId, settings.envFile);
+      } catch (err: any) {
+        ctx.ui.notify(`Failed to leave ${conversationId}: ${err.message}`, "error");
+        return;
+      }
+      stopAgent(conv);
+      getStateStore()?.update((state) => removeConversation(state, conversationId));
+      ctx.ui.notify(`Left ${label}`, "info");
+    },
+  });
+
+  /** Notify in the TUI. Headless commands run through session.prompt, so there the message is logged. */
+  function commandReporter(ctx: ExtensionContext, event: string) {
+    return (message: string, level: "info" | "warning" | "error") => {
+      if (headlessMode) {
+        const line = `${level === "info" ? "📝" : "⚠"} ${message}`;
+        if (level === "info") logger.info(line, { event });
+        else logger[level === "warning" ? "warn" : "error"](line, { event });
+      } else {
+        ctx.ui.notify(message, level);
+      }
+    };
+  }
+
+  const EXPORT_USAGE =
+    "Usage: /convos-export [--format markdown|jsonl] [--since <date>] [--until <date>] [--out <dir>] [--no-attachments] [conversationId]";
+
+  // Also the headless entry point: session.prompt("/convos-export ...") runs it without a UI
+  pi.registerCommand("convos-export", {
+    description:
+      "Export the history of a Convos conversation, with attachments, as Markdown or JSON lines. Dates may be today, yesterday, YYYY-MM-DD or ISO 8601",
+    handler: async (args, ctx) => {
+      const report = commandReporter(ctx, "export");
+
+      const tokens = tokenizeArgs(args ?? "");
+      const format = argValue(tokens, "--format") ?? "markdown";
+      const sinceArg = argValue(tokens, "--since");
+      const untilArg = argValue(tokens, "--until");
+      const since = sinceArg ? parseExportDate(sinceArg) : null;
+      const until = untilArg ? parseExportDate(untilArg, { end: true }) : null;
+      const rest = tokens.filter((token, i) =>
+        !token.startsWith("--") && !["--format", "--since", "--until", "--out"].includes(tokens[i - 1])
+      );
+      if (!(TRANSCRIPT_FORMATS as readonly string[]).includes(format) || (sinceArg && !since) || (untilArg && !until) || rest.length > 1) {
+        report(EXPORT_USAGE, "warning");
+        return;
+      }
+
+      const resolved = resolveConversation(rest[0]);
+      if ("error" in resolved) {
+        report(resolved.error, "warning");
+        return;
+      }
+      const conv = resolved.conversation;
+
+      let result: ExportResult;
+      try {
+        result = await exportConversation(conv, {
+          format: format as TranscriptFormat,
+          since,
+          until,
+          outDir: argValue(tokens, "--out") ?? getExportRoot(),
+          attachments: !tokens.includes("--no-attachments"),
+        });
+      } catch (err: any) {
+        report(`Failed to export ${conv.conversationId}: ${err.message}`, "error");
+        return;
+      }
+
+      const summary = `Exported ${result.messages} message(s) and ${result.attachments} attachment(s) from ${conv.conversationId} to ${result.path}`;
+      report(summary, "info");
+      if (result.failed.length > 0) {
+        report(`Could not download: ${result.failed.join(", ")}`, "warning");
+      }
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content: summary,
+          display: true,
+          details: { type: "export", conversationId: conv.conversationId, format, ...result },
+        },
+        { triggerTurn: false },
+      );
+    },
+  });
+
+  const OUTBOX_USAGE = "Usage: /convos-outbox [clear [outboxId|conversationId]]";
+
+  // Also usable headless, like /convos-export
+  pi.registerCommand("convos-outbox", {
+    description:
+      "Show messages, reactions and files waiting for a Convos agent to come back, or drop them: /convos-outbox [clear [outboxId|conversationId]]",
+    handler: async (args, ctx) => {
+      const report = commandReporter(ctx, "outbox");
+      const [action, target, ...extra] = tokenizeArgs(args ?? "");
+      if ((action && action !== "clear") || extra.length > 0) {
+        report(OUTBOX_USAGE, "warning");
+        return;
+      }
+
+      const entries = readOutbox().filter((e) => !target || e.id === target || e.conversationId === target);
+      if (action === "clear") {
+        if (entries.length === 0) {
+          report(target ? `Nothing queued for ${target}` : "The Convos outbox is empty", "info");
+          return;
+        }
+        if (!headlessMode && !(await ctx.ui.confirm("Clear outbox?", `Drop ${entries.length} queued command(s)? They will never be sent.`))) {
+          return;
+        }
+        const ids = entries.map((e) => e.id);
+        getStateStore()?.update((state) => removeOutboxEntries(state, ids));
+        report(`Dropped ${entries.length} queued command(s) from the Convos outbox`, "info");
+        return;
+      }
+
+      const content = entries.length > 0
+        ? [`${entries.length} command(s) waiting in the Convos outbox:`, ...entries.map((e) => `  ${describeOutboxEntry(e)}`)].join("\n")
+        : "The Convos outbox is empty.";
+      if (headlessMode) logger.info(content, { event: "outbox", outboxIds: entries.map((e) => e.id) });
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content,
+          display: true,
+          details: { type: "outbox", entries },
+        },
+        { triggerTurn: false },
+      );
+    },
+  });
+
+  pi.registerCommand("convos-config", {
+    description: "Show the effective Convos settings and where each one comes from. Pass `reload` to re-read the config files",
+    handler: async (args, ctx) => {
+      if (args?.trim() === "reload") {
+        config = loadSettings();
+        settings = config.settings;
+        logger = createLogger();
+        startMetricsFile();
+        reportConfigWarnings();
+        ctx.ui.notify("Convos settings reloaded", "info");
+      }
+
+      const files = [
+        ["user", userConfigPath(getAgentDir())],
+        ["project", projectConfigPath(worktreeRoot ?? process.cwd())],
+      ].map(([label, path]) => `  ${label}: ${path}${config.files.includes(path) ? "" : " (not found)"}`);
+      const entries = flattenSettings(settings).map(([key, value]) =>
+        `  ${key} = ${JSON.stringify(value)}  (${config.sources[key] ?? "default"})`
+      );
+
+      pi.sendMessage(
+        {
+          customType: "convos",
+          content: [
+            "Convos settings (defaults < user file < project file < CONVOS_* env vars < /convos-start flags)",
+            "Files:",
+            ...files,
+            "Settings:",
+            ...entries,
+            ...(config.warnings.length > 0 ? ["Warnings:", ...config.warnings.map((w) => `  ${w}`)] : []),
+          ].join("\n"),
+          display: true,
+          details: { type: "config", settings, sources: config.sources, files: config.files, warnings: config.warnings },
+        },
+        { triggerTurn: false },
+      );
     },
   });
 
   // --- Lifecycle ---
 
+  // How long the final state write waits for another instance's lock
+  const STATE_SHUTDOWN_WAIT_MS = 2_000;
+
   pi.on("session_shutdown", async () => {
-    // Persist latest timestamp before shutdown
-    if (headlessMode) {
-      lastSeenTimestampNs = String(Date.now() * 1_000_000);
-      persistState();
-    }
-    stopAgent();
+    // The catch-up position is left where it is: it advances with each handled
+    // message, and anything newer (sent while a child was down, or still held
+    // by debounce, rate limits or /pause) is picked up on the next start.
+    stopAllAgents();
+    // The last chance to save changes still waiting for the write delay
+    stateStore?.flush({ waitMs: STATE_SHUTDOWN_WAIT_MS });
+    if (metricsTimer) clearInterval(metricsTimer);
+    metricsTimer = null;
+    writeMetrics();
+    if (scheduleTimer) clearTimeout(scheduleTimer);
+    scheduleTimer = null;
   });
 }
@@ -0,0 +1,157 @@
+/**
+ * Inbound attachment inbox.
+ *
+ * Files sent to a conversation are downloaded into a managed directory
+ * (one subdirectory per conversation) instead of a temp file, so the agent
+ * can open them later. Text-like files get a bounded excerpt for the turn.
+ * The inbox is pruned by age and total size rather than deleting files
+ * right after they are read.
+ */
+
+import { closeSync, existsSync, openSync, readdirSync, readSync, rmSync, statSync } from "node:fs";
+import { basename, extname, join } from "node:path";
+
+export interface RetentionPolicy {
+  /** Files older than this are removed */
+  maxAgeMs: number;
+  /** Oldest files are removed until the inbox is below this size */
+  maxTotalBytes: number;
+}
+
+/** Longest excerpt of a text attachment placed in the turn. */
+export const EXCERPT_MAX_CHARS = 8000;
+
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp"]);
+
+const TEXT_EXTENSIONS = new Set([
+  ".txt", ".log", ".md", ".markdown", ".rst", ".csv", ".tsv",
+  ".diff", ".patch",
+  ".json", ".jsonl", ".ndjson", ".yaml", ".yml", ".toml", ".ini", ".env", ".xml", ".html", ".css",
+  ".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".py", ".rb", ".go", ".rs", ".java", ".kt", ".swift",
+  ".c", ".h", ".cc", ".cpp", ".hpp", ".cs", ".php", ".sh", ".bash", ".zsh", ".sql", ".graphql", ".proto",
+]);
+
+// Logs and traces end with the interesting part
+const TAIL_EXTENSIONS = new Set([".log"]);
+
+/** Parsed `[remote attachment: <name> (<size>) <url>]` content from `agent serve`. */
+export interface RemoteAttachment {
+  filename: string;
+  /** Size in bytes when the event states one */
+  size: number | null;
+  url: string;
+}
+
+export function parseRemoteAttachment(content: unknown): RemoteAttachment | null {
+  if (typeof content !== "string") return null;
+  const match = content.match(/^\[remote attachment: (.+?) \((.*?)\) (https?:\/\/\S+)\]$/);
+  if (!match) return null;
+  return { filename: match[1], size: parseSize(match[2]), url: match[3] };
+}
+
+/** Parse sizes like "1234", "1234 bytes", "1.2 MB". */
+function parseSize(text: string): number | null {
+  const match = text.trim().match(/^([\d.]+)\s*(bytes?|b|kb|mb|gb)?$/i);
+  if (!match) return null;
+  const units: Record<string, number> = { kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+  const value = Number(match[1]);
+  if (Number.isNaN(value)) return null;
+  return Math.round(value * (units[match[2]?.toLowerCase() ?? ""] ?? 1));
+}
+
+export function isImageFile(filename: string): boolean {
+  return IMAGE_EXTENSIONS.has(extname(filename).toLowerCase());
+}
+
+export function imageMimeType(filename: string): string {
+  const ext = extname(filename).slice(1).toLowerCase() || "jpeg";
+  return ext === "jpg" ? "image/jpeg" : `image/${ext}`;
+}
+
+/** Strip directories and unsafe characters from a sender-supplied filename. */
+export function safeFilename(filename: string): string {
+  const name = basename(filename.replace(/\\/g, "/")).replace(/[^\w.\-+@ ]/g, "_").replace(/^\.+/, "_");
+  return name.slice(-120) || "attachment";
+}
+
+/** Whether a downloaded file is text: known extension, or no NUL bytes in its first 8 KB. */
+export function isTextFile(path: string): boolean {
+  if (TEXT_EXTENSIONS.has(extname(path).toLowerCase())) return true;
+  if (isImageFile(path)) return false;
+  const sample = readBytes(path, 0, 8192);
+  return sample.length > 0 && !sample.includes(0);
+}
+
+function readBytes(path: string, position: number, length: number): Buffer {
+  const fd = openSync(path, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    const read = readSync(fd, buffer, 0, length, position);
+    return buffer.subarray(0, read);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Read at most maxChars of a text file. Logs are read from the end, everything
+ * else from the start. Cut excerpts are trimmed to whole lines.
+ */
+export function readExcerpt(path: string, maxChars = EXCERPT_MAX_CHARS): { text: string; truncated: boolean; fromEnd: boolean } {
+  const size = statSync(path).size;
+  const fromEnd = TAIL_EXTENSIONS.has(extname(path).toLowerCase());
+  // Read a little extra so multi-byte characters and the trimmed line don't shorten the excerpt
+  const length = Math.min(size, maxChars * 4);
+  const raw = readBytes(path, fromEnd ? size - length : 0, length).toString("utf-8");
+  if (size <= length && raw.length <= maxChars) return { text: raw, truncated: false, fromEnd };
+
+  let text = fromEnd ? raw.slice(-maxChars) : raw.slice(0, maxChars);
+  const cut = fromEnd ? text.indexOf("\n") : text.lastIndexOf("\n");
+  if (cut > 0 && cut < text.length - 1) text = fromEnd ? text.slice(cut + 1) : text.slice(0, cut);
+  return { text, truncated: true, fromEnd };
+}
+
+/**
+ * Apply the retention policy to an inbox directory. Returns the removed paths.
+ */
+export function pruneInbox(root: string, policy: RetentionPolicy, now = Date.now()): string[] {
+  if (!existsSync(root)) return [];
+
+  const files: { path: string; size: number; mtimeMs: number }[] = [];
+  for (const dir of readdirSync(root, { withFileTypes: true })) {
+    if (!dir.isDirectory()) continue;
+    for (const entry of readdirSync(join(root, dir.name), { withFileTypes: true })) {
+      if (!entry.isFile()) continue;
+      const path = join(root, dir.name, entry.name);
+      const { size, mtimeMs } = statSync(path);
+      files.push({ path, size, mtimeMs });
+    }
+  }
+
+  const removed: string[] = [];
+  const remove = (path: string) => {
+    try {
+      rmSync(path, { force: true });
+      removed.push(path);
+    } catch {}
+  };
+
+  // Newest first, so everything past the size budget is the oldest
+  files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  let total = 0;
+  for (const file of files) {
+    if (now - file.mtimeMs > policy.maxAgeMs) {
+      remove(file.path);
+      continue;
+    }
+    total += file.size;
+    if (total > policy.maxTotalBytes) remove(file.path);
+  }
+  return removed;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+}
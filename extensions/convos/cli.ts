@@ -0,0 +1,145 @@
+/**
+ * Async runner for one-shot `convos` subcommands.
+ *
+ * Commands are spawned with argument arrays (never through a shell), so file
+ * paths and IDs from the LLM or from senders are passed through verbatim.
+ * Every run has a timeout and can be cancelled with an AbortSignal. Failures
+ * reject with a ConvosCliError that carries the kind of failure, the exit
+ * code and the captured stderr.
+ */
+
+import { spawn } from "node:child_process";
+
+export type ConvosCliErrorKind =
+  /** The executable is not installed or not on PATH */
+  | "not_found"
+  /** The command did not finish within its timeout */
+  | "timeout"
+  /** The caller's AbortSignal fired */
+  | "aborted"
+  /** The command exited with a non-zero code or was killed */
+  | "exit"
+  /** --json output that does not parse */
+  | "invalid_json";
+
+export class ConvosCliError extends Error {
+  readonly name = "ConvosCliError";
+
+  constructor(
+    message: string,
+    readonly kind: ConvosCliErrorKind,
+    /** Arguments the command was run with */
+    readonly args: string[],
+    /** Everything the command wrote to stderr */
+    readonly stderr = "",
+    readonly exitCode: number | null = null,
+  ) {
+    super(message);
+  }
+}
+
+export interface RunOptions {
+  /** Kill the command after this long (default 30s) */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  /** Environment for the child, defaults to process.env */
+  env?: NodeJS.ProcessEnv;
+  /** Executable to run instead of `convos` */
+  command?: string;
+}
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+/** `--env-file <path>` when an env file is configured. */
+export function envFileArgs(envFile: string | null): string[] {
+  return envFile ? ["--env-file", envFile] : [];
+}
+
+/** Last non-empty stderr line, which is where the CLI puts its error. */
+function stderrSummary(stderr: string): string {
+  return stderr.trim().split("\n").filter(Boolean).pop() ?? "";
+}
+
+/** Run `convos <args>` and collect its output. Rejects with ConvosCliError. */
+export function runConvos(args: string[], options: RunOptions = {}): Promise<RunResult> {
+  const command = options.command ?? "convos";
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const label = [command, ...args.slice(0, 2)].join(" ");
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new ConvosCliError(`${label} was cancelled`, "aborted", args));
+      return;
+    }
+
+    const proc = spawn(command, args, {
+      stdio: ["ignore", "pipe", "pipe"],
+      env: options.env ?? process.env,
+    });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    proc.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    proc.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+
+    // Set when we kill the process, so the exit is reported as the cause
+    let failure: ConvosCliError | null = null;
+    const kill = (error: ConvosCliError) => {
+      failure ??= error;
+      try { proc.kill("SIGTERM"); } catch {}
+    };
+
+    const timer = setTimeout(
+      () => kill(new ConvosCliError(`${label} timed out after ${Math.round(timeoutMs / 1000)}s`, "timeout", args)),
+      timeoutMs,
+    );
+    const onAbort = () => kill(new ConvosCliError(`${label} was cancelled`, "aborted", args));
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    let settled = false;
+    const finish = (error: ConvosCliError | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      if (error) reject(error);
+      else resolve({ stdout: Buffer.concat(stdout).toString("utf-8"), stderr: Buffer.concat(stderr).toString("utf-8") });
+    };
+
+    proc.on("error", (err: NodeJS.ErrnoException) => {
+      finish(err.code === "ENOENT"
+        ? new ConvosCliError(`${command} not found. Install it: npm install -g @convos/cli`, "not_found", args)
+        : new ConvosCliError(`${label} failed to start: ${err.message}`, "exit", args));
+    });
+
+    proc.on("close", (code, signal) => {
+      const errText = Buffer.concat(stderr).toString("utf-8");
+      if (failure) {
+        finish(new ConvosCliError(failure.message, failure.kind, args, errText, code));
+      } else if (code !== 0) {
+        const status = code === null ? `was killed by ${signal}` : `exited with code ${code}`;
+        const detail = stderrSummary(errText);
+        finish(new ConvosCliError(`${label} ${status}${detail ? `: ${detail}` : ""}`, "exit", args, errText, code));
+      } else {
+        finish(null);
+      }
+    });
+  });
+}
+
+/** Run a `--json` subcommand and parse its output. Empty output parses as null. */
+export async function runConvosJson<T = any>(args: string[], options: RunOptions = {}): Promise<T | null> {
+  const { stdout, stderr } = await runConvos(args, options);
+  if (!stdout.trim()) return null;
+  try {
+    return JSON.parse(stdout) as T;
+  } catch {
+    const label = [options.command ?? "convos", ...args.slice(0, 2)].join(" ");
+    throw new ConvosCliError(`${label} returned invalid JSON`, "invalid_json", args, stderr, 0);
+  }
+}
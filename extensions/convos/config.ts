@@ -0,0 +1,419 @@
+/**
+ * Extension settings.
+ *
+ * Settings come from, lowest precedence first:
+ *   1. built-in defaults
+ *   2. the user-level file, <pi agent dir>/convos.config.json
+ *   3. the project file, <worktree>/.pi/convos.config.json
+ *   4. CONVOS_* environment variables
+ *   5. flags passed to /convos-start
+ *
+ * Both files are validated against ConvosConfigSchema. A file that fails
+ * validation is ignored as a whole and reported, so a typo never half-applies.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Type, type Static, type TSchema } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { LOG_FORMATS, LOG_LEVELS, type LogFormat, type LogLevel } from "./logger.js";
+import { QR_RENDERERS, type QrRenderer } from "./qr.js";
+
+const Positive = (description: string) => Type.Integer({ minimum: 1, description });
+const NonNegative = (description: string) => Type.Number({ minimum: 0, description });
+
+// How much a conversation hears about Convos-driven turns while they run.
+// basic: acknowledgement and a final notice. tools: plus throttled tool
+// updates. verbose: tool updates include what each tool was called with.
+export const PROGRESS_LEVELS = ["off", "basic", "tools", "verbose"] as const;
+export type ProgressLevel = (typeof PROGRESS_LEVELS)[number];
+
+export const ConvosConfigSchema = Type.Object(
+  {
+    env: Type.Optional(
+      Type.Union([Type.Literal("dev"), Type.Literal("production")], { description: "XMTP network for new identities" }),
+    ),
+    envFile: Type.Optional(Type.String({ minLength: 1, description: "Identity file (.env) used by the convos CLI" })),
+    name: Type.Optional(Type.String({ minLength: 1, description: "Name of new conversations" })),
+    profileName: Type.Optional(Type.String({ minLength: 1, description: "Profile name shown to members" })),
+    permissions: Type.Optional(
+      Type.Union([Type.Literal("all-members"), Type.Literal("admin-only")], {
+        description: "Who may add members to new conversations",
+      }),
+    ),
+    autoStart: Type.Optional(
+      Type.Boolean({ description: "Resume saved conversations on session start (default: only in headless mode)" }),
+    ),
+    catchUp: Type.Optional(
+      Type.Object(
+        {
+          pageSize: Type.Optional(Positive("Messages fetched per page")),
+          maxMessages: Type.Optional(Positive("Stop paging after this many messages")),
+          replayLimit: Type.Optional(NonNegative("Backlogs up to this size are replayed one by one")),
+          summaryRecent: Type.Optional(Positive("Newest messages quoted in a backlog summary")),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    routing: Type.Optional(
+      Type.Object(
+        {
+          debounceMs: Type.Optional(NonNegative("Quiet time before queued messages become a turn")),
+          memberTurnsPerMinute: Type.Optional(Positive("Turns one member may trigger per minute")),
+          turnsPerMinute: Type.Optional(Positive("Turns all conversations may trigger per minute")),
+          commandPrefix: Type.Optional(Type.String({ minLength: 1, description: "Prefix of chat commands" })),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    approval: Type.Optional(
+      Type.Object(
+        {
+          tools: Type.Optional(Type.Array(Type.String(), { description: "Tools that need approval in Convos turns" })),
+          timeoutSeconds: Type.Optional(Positive("Seconds to wait before denying")),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    attachments: Type.Optional(
+      Type.Object(
+        {
+          maxMb: Type.Optional(NonNegative("Larger attachments are not downloaded")),
+          retentionDays: Type.Optional(NonNegative("Days to keep downloaded files")),
+          inboxMaxMb: Type.Optional(NonNegative("Oldest files are removed above this total")),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    progress: Type.Optional(
+      Type.Object(
+        {
+          level: Type.Optional(
+            Type.Union(PROGRESS_LEVELS.map((level) => Type.Literal(level)), {
+              description: "Progress updates for new conversations",
+            }),
+          ),
+          intervalSeconds: Type.Optional(Positive("Minimum time between tool updates")),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    reactions: Type.Optional(
+      Type.Object(
+        {
+          triggerEmojis: Type.Optional(
+            Type.Array(Type.String({ minLength: 1 }), {
+              description: "Reactions to the agent's messages that start a turn; others are kept for the next turn",
+            }),
+          ),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    qr: Type.Optional(
+      Type.Object(
+        {
+          renderer: Type.Optional(
+            Type.Union(QR_RENDERERS.map((renderer) => Type.Literal(renderer)), {
+              description: "How invite QR codes are drawn (default: detected from the terminal)",
+            }),
+          ),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    log: Type.Optional(
+      Type.Object(
+        {
+          level: Type.Optional(
+            Type.Union(LOG_LEVELS.map((level) => Type.Literal(level)), {
+              description: "Least severe headless log lines printed",
+            }),
+          ),
+          format: Type.Optional(
+            Type.Union(LOG_FORMATS.map((format) => Type.Literal(format)), {
+              description: "Headless log lines as plain text or JSON lines",
+            }),
+          ),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    metrics: Type.Optional(
+      Type.Object(
+        {
+          file: Type.Optional(Type.String({ minLength: 1, description: "JSON file the metrics are written to, relative to the working directory" })),
+          intervalSeconds: Type.Optional(Positive("How often the metrics file is rewritten")),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    state: Type.Optional(
+      Type.Object(
+        {
+          writeDelayMs: Type.Optional(NonNegative("Changes to the state file are batched for this long")),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+  },
+  { additionalProperties: false },
+);
+
+export type ConvosConfigFile = Static<typeof ConvosConfigSchema>;
+
+/** Fully resolved settings. */
+export interface ConvosSettings {
+  env: "dev" | "production";
+  envFile: string | null;
+  name: string | null;
+  profileName: string;
+  permissions: "all-members" | "admin-only" | null;
+  autoStart: boolean | null;
+  catchUp: { pageSize: number; maxMessages: number; replayLimit: number; summaryRecent: number };
+  routing: { debounceMs: number; memberTurnsPerMinute: number; turnsPerMinute: number; commandPrefix: string };
+  approval: { tools: string[]; timeoutSeconds: number };
+  attachments: { maxMb: number; retentionDays: number; inboxMaxMb: number };
+  progress: { level: ProgressLevel; intervalSeconds: number };
+  reactions: { triggerEmojis: string[] };
+  qr: { renderer: QrRenderer };
+  log: { level: LogLevel; format: LogFormat };
+  metrics: { file: string | null; intervalSeconds: number };
+  state: { writeDelayMs: number };
+}
+
+export const DEFAULT_SETTINGS: ConvosSettings = {
+  env: "dev",
+  envFile: null,
+  name: null,
+  profileName: "Pi",
+  permissions: null,
+  autoStart: null,
+  catchUp: { pageSize: 100, maxMessages: 5000, replayLimit: 20, summaryRecent: 10 },
+  routing: { debounceMs: 1500, memberTurnsPerMinute: 6, turnsPerMinute: 20, commandPrefix: "/" },
+  approval: { tools: ["bash", "write", "edit"], timeoutSeconds: 300 },
+  attachments: { maxMb: 25, retentionDays: 7, inboxMaxMb: 500 },
+  progress: { level: "off", intervalSeconds: 30 },
+  reactions: { triggerEmojis: ["👍", "👎", "✅", "❌", "❓"] },
+  qr: { renderer: "auto" },
+  log: { level: "info", format: "text" },
+  metrics: { file: null, intervalSeconds: 60 },
+  state: { writeDelayMs: 1000 },
+};
+
+const list = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean);
+const bool = (value: string) => /^(1|true|yes|on)$/i.test(value) ? true : /^(0|false|no|off)$/i.test(value) ? false : value;
+
+/** Environment variables and the setting each one overrides. */
+export const ENV_OVERRIDES: { variable: string; key: string; parse?: (value: string) => unknown; allowEmpty?: boolean }[] = [
+  { variable: "CONVOS_ENV", key: "env" },
+  { variable: "CONVOS_ENV_FILE", key: "envFile" },
+  { variable: "CONVOS_NAME", key: "name" },
+  { variable: "CONVOS_PROFILE_NAME", key: "profileName" },
+  { variable: "CONVOS_PERMISSIONS", key: "permissions" },
+  { variable: "CONVOS_AUTO_START", key: "autoStart", parse: bool },
+  { variable: "CONVOS_CATCH_UP_MAX_MESSAGES", key: "catchUp.maxMessages", parse: Number },
+  { variable: "CONVOS_DEBOUNCE_MS", key: "routing.debounceMs", parse: Number },
+  { variable: "CONVOS_MEMBER_TURNS_PER_MINUTE", key: "routing.memberTurnsPerMinute", parse: Number },
+  { variable: "CONVOS_TURNS_PER_MINUTE", key: "routing.turnsPerMinute", parse: Number },
+  { variable: "CONVOS_COMMAND_PREFIX", key: "routing.commandPrefix" },
+  // Empty disables approval altogether
+  { variable: "CONVOS_APPROVAL_TOOLS", key: "approval.tools", parse: list, allowEmpty: true },
+  { variable: "CONVOS_APPROVAL_TIMEOUT_SECONDS", key: "approval.timeoutSeconds", parse: Number },
+  { variable: "CONVOS_ATTACHMENT_MAX_MB", key: "attachments.maxMb", parse: Number },
+  { variable: "CONVOS_INBOX_RETENTION_DAYS", key: "attachments.retentionDays", parse: Number },
+  { variable: "CONVOS_INBOX_MAX_MB", key: "attachments.inboxMaxMb", parse: Number },
+  { variable: "CONVOS_PROGRESS", key: "progress.level" },
+  { variable: "CONVOS_PROGRESS_INTERVAL_SECONDS", key: "progress.intervalSeconds", parse: Number },
+  // Empty makes every reaction context for the next turn
+  { variable: "CONVOS_REACTION_TRIGGER_EMOJIS", key: "reactions.triggerEmojis", parse: list, allowEmpty: true },
+  { variable: "CONVOS_QR_RENDERER", key: "qr.renderer" },
+  { variable: "CONVOS_LOG_LEVEL", key: "log.level" },
+  { variable: "CONVOS_LOG_FORMAT", key: "log.format" },
+  { variable: "CONVOS_METRICS_FILE", key: "metrics.file" },
+  { variable: "CONVOS_STATE_WRITE_DELAY_MS", key: "state.writeDelayMs", parse: Number },
+];
+
+export interface LoadedConfig {
+  settings: ConvosSettings;
+  /** Where each dotted setting key got its value, e.g. "project file" or "CONVOS_NAME" */
+  sources: Record<string, string>;
+  /** Config files that exist, lowest precedence first */
+  files: string[];
+  /** Problems found while loading; the offending file or variable was skipped */
+  warnings: string[];
+}
+
+export function userConfigPath(agentDir: string): string {
+  return join(agentDir, "convos.config.json");
+}
+
+export function projectConfigPath(projectDir: string): string {
+  return join(projectDir, ".pi", "convos.config.json");
+}
+
+function describeErrors(schema: TSchema, value: unknown): string {
+  return [...Value.Errors(schema, value)]
+    .slice(0, 5)
+    .map((error) => `${error.path || "/"}: ${error.message}`)
+    .join("; ");
+}
+
+/** Build a partial config with one dotted key set. */
+function withKey(key: string, value: unknown): Record<string, unknown> {
+  const [head, tail] = key.split(".");
+  return tail ? { [head]: { [tail]: value } } : { [head]: value };
+}
+
+/** Dotted keys of every leaf value in a partial config. */
+function leafKeys(config: Record<string, unknown>): string[] {
+  return Object.entries(config).flatMap(([key, value]) =>
+    value && typeof value === "object" && !Array.isArray(value) ? Object.keys(value).map((sub) => `${key}.${sub}`) : [key]
+  );
+}
+
+function apply(settings: ConvosSettings, sources: Record<string, string>, layer: ConvosConfigFile, source: string) {
+  const target = settings as unknown as Record<string, any>;
+  for (const key of leafKeys(layer as Record<string, unknown>)) {
+    const [head, tail] = key.split(".");
+    const value = tail ? (layer as any)[head][tail] : (layer as any)[head];
+    if (value === undefined) continue;
+    if (tail) target[head] = { ...target[head], [tail]: value };
+    else target[head] = value;
+    sources[key] = source;
+  }
+}
+
+function readConfigFile(path: string, warnings: string[]): ConvosConfigFile | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err: any) {
+    warnings.push(`${path} is not valid JSON and was ignored: ${err.message}`);
+    return null;
+  }
+  if (!Value.Check(ConvosConfigSchema, raw)) {
+    warnings.push(`${path} was ignored: ${describeErrors(ConvosConfigSchema, raw)}`);
+    return null;
+  }
+  return raw;
+}
+
+/** Resolve settings from defaults, the user and project files, and the environment. */
+export function loadConvosConfig(options: {
+  agentDir: string;
+  projectDir: string | null;
+  env?: NodeJS.ProcessEnv;
+}): LoadedConfig {
+  const env = options.env ?? process.env;
+  const settings = structuredClone(DEFAULT_SETTINGS);
+  const sources: Record<string, string> = {};
+  const files: string[] = [];
+  const warnings: string[] = [];
+
+  const layers: [string | null, string][] = [
+    [userConfigPath(options.agentDir), "user file"],
+    [options.projectDir ? projectConfigPath(options.projectDir) : null, "project file"],
+  ];
+  for (const [path, source] of layers) {
+    if (!path || !existsSync(path)) continue;
+    files.push(path);
+    const layer = readConfigFile(path, warnings);
+    if (layer) apply(settings, sources, layer, source);
+  }
+
+  for (const { variable, key, parse, allowEmpty } of ENV_OVERRIDES) {
+    const raw = env[variable];
+    if (raw === undefined || (raw === "" && !allowEmpty)) continue;
+    const layer = withKey(key, parse ? parse(raw) : raw);
+    if (!Value.Check(ConvosConfigSchema, layer)) {
+      warnings.push(`${variable}=${raw} was ignored: ${describeErrors(ConvosConfigSchema, layer)}`);
+      continue;
+    }
+    apply(settings, sources, layer as ConvosConfigFile, variable);
+  }
+
+  return { settings, sources, files, warnings };
+}
+
+/** Parsed /convos-start arguments. */
+export interface StartArgs {
+  /** Conversation to attach to, if one was given */
+  conversationId: string | null;
+  /** Settings given as flags, which override every other source */
+  overrides: Pick<ConvosConfigFile, "name" | "profileName" | "permissions">;
+  /** Flags this extension does not know, passed to `convos agent serve` unchanged */
+  passthrough: string[];
+}
+
+const START_FLAGS: Record<string, keyof StartArgs["overrides"]> = {
+  "--name": "name",
+  "--profile-name": "profileName",
+  "--permissions": "permissions",
+};
+
+/** Split an argument string on whitespace, keeping "quoted values" together. */
+export function tokenizeArgs(args: string): string[] {
+  return (args.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map((token) => token.replace(/^(["'])(.*)\1$/, "$2"));
+}
+
+/**
+ * Parse /convos-start arguments. Known flags become setting overrides, the
+ * first bare word is the conversation ID, and anything else is passed on.
+ * Throws when a flag is missing its value or has an invalid one, and for
+ * --env-file: the identity also locates the state file, inbox and exports,
+ * and one-shot commands use it, so it cannot differ between conversations.
+ */
+export function parseStartArgs(args: string): StartArgs {
+  const tokens = tokenizeArgs(args);
+  const result: StartArgs = { conversationId: null, overrides: {}, passthrough: [] };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const [flag, inlineValue] = token.startsWith("--") && token.includes("=")
+      ? [token.slice(0, token.indexOf("=")), token.slice(token.indexOf("=") + 1)]
+      : [token, undefined];
+    const key = START_FLAGS[flag];
+
+    if (flag === "--env-file") {
+      throw new Error("--env-file cannot be set per conversation; set envFile in convos.config.json or CONVOS_ENV_FILE");
+    }
+    if (key) {
+      const value = inlineValue ?? tokens[++i];
+      if (value === undefined || (inlineValue === undefined && value.startsWith("--"))) {
+        throw new Error(`${flag} needs a value`);
+      }
+      const layer = { [key]: value };
+      if (!Value.Check(ConvosConfigSchema, layer)) {
+        throw new Error(`Invalid ${flag}: ${describeErrors(ConvosConfigSchema, layer)}`);
+      }
+      (result.overrides as Record<string, string>)[key] = value;
+    } else if (!token.startsWith("-") && result.conversationId === null) {
+      result.conversationId = token;
+    } else {
+      result.passthrough.push(token);
+      // Keep an unknown flag's value next to it
+      if (token.startsWith("--") && !token.includes("=") && tokens[i + 1] !== undefined && !tokens[i + 1].startsWith("-")) {
+        result.passthrough.push(tokens[++i]);
+      }
+    }
+  }
+  return result;
+}
+
+/** Settings with /convos-start flags applied on top. */
+export function withStartArgs(config: LoadedConfig, args: StartArgs): LoadedConfig {
+  const settings = structuredClone(config.settings);
+  const sources = { ...config.sources };
+  apply(settings, sources, args.overrides, "/convos-start");
+  return { ...config, settings, sources };
+}
+
+/** Dotted keys and values of the effective settings, for display. */
+export function flattenSettings(settings: ConvosSettings): [string, unknown][] {
+  return leafKeys(settings as unknown as Record<string, unknown>).map((key) => {
+    const [head, tail] = key.split(".");
+    const value = (settings as any)[head];
+    return [key, tail ? value[tail] : value];
+  });
+}
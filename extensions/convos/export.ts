@@ -0,0 +1,138 @@
+/**
+ * Conversation transcripts for /convos-export.
+ *
+ * The extension collects the stored history of a conversation into a
+ * Transcript (sender names resolved, attachments downloaded); this module
+ * turns it into Markdown or JSON lines and parses the date range options.
+ */
+
+import { isImageFile } from "./attachments.js";
+import { quoteText } from "./message-cache.js";
+
+export const TRANSCRIPT_FORMATS = ["markdown", "jsonl"] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export interface TranscriptEntry {
+  id: string;
+  /** ISO time the message was sent */
+  sentAt: string | null;
+  senderInboxId: string | null;
+  /** Profile name, or the inbox ID without one */
+  sender: string;
+  /** Sent by this agent */
+  fromSelf: boolean;
+  contentType: string;
+  /** One-line description for content without text, e.g. a reaction */
+  text: string;
+  replyTo?: string;
+  reaction?: { emoji: string; targetId: string | null; action: "added" | "removed" };
+  attachment?: {
+    filename: string;
+    /** Path of the downloaded file, relative to the transcript */
+    path: string | null;
+    /** Why the file is missing */
+    error?: string;
+  };
+}
+
+export interface Transcript {
+  conversationId: string;
+  name: string | null;
+  exportedAt: string;
+  since: string | null;
+  until: string | null;
+  entries: TranscriptEntry[];
+}
+
+export function transcriptExtension(format: TranscriptFormat): string {
+  return format === "markdown" ? ".md" : ".jsonl";
+}
+
+/**
+ * Parse a --since/--until value: `today`, `yesterday`, a local date
+ * (YYYY-MM-DD) or an ISO 8601 time. A bare date used as an end includes
+ * that whole day.
+ */
+export function parseExportDate(value: string, { end = false, now = new Date() } = {}): Date | null {
+  const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const keyword = value.trim().toLowerCase();
+  let day: Date | null = null;
+  if (keyword === "today") day = startOfDay(now);
+  else if (keyword === "yesterday") day = new Date(startOfDay(now).getTime() - 24 * 3600_000);
+  else {
+    const match = keyword.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (match) day = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  if (day) return end ? new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1) : day;
+
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : new Date(ms);
+}
+
+const time = (iso: string | null) => (iso ? iso.slice(11, 16) + "Z" : "??:??");
+const day = (iso: string | null) => (iso ? iso.slice(0, 10) : "Unknown date");
+
+/** Markdown with a heading per day and the quoted parent of each reply. */
+export function renderMarkdown(transcript: Transcript): string {
+  const byId = new Map(transcript.entries.map((entry) => [entry.id, entry]));
+  const title = transcript.name ?? transcript.conversationId;
+  const lines = [
+    `# Convos transcript: ${title}`,
+    "",
+    `- Conversation: \`${transcript.conversationId}\``,
+    `- Exported: ${transcript.exportedAt}`,
+  ];
+  if (transcript.since || transcript.until) {
+    lines.push(`- Range: ${transcript.since ?? "start"} – ${transcript.until ?? "now"}`);
+  }
+  lines.push(`- Messages: ${transcript.entries.length}`);
+
+  let currentDay: string | null = null;
+  for (const entry of transcript.entries) {
+    if (day(entry.sentAt) !== currentDay) {
+      currentDay = day(entry.sentAt);
+      lines.push("", `## ${currentDay}`);
+    }
+    const header = `**${time(entry.sentAt)} ${entry.sender}** \`${entry.id}\``;
+
+    if (entry.reaction) {
+      const target = entry.reaction.targetId ? byId.get(entry.reaction.targetId) : undefined;
+      const verb = entry.reaction.action === "removed" ? "removed" : "reacted";
+      const what = target
+        ? `${target.sender}'s message \`${target.id}\``
+        : `\`${entry.reaction.targetId ?? "unknown"}\``;
+      lines.push("", `${header} ${verb} ${entry.reaction.emoji} to ${what}`);
+      continue;
+    }
+
+    lines.push("", header);
+    if (entry.replyTo) {
+      const parent = byId.get(entry.replyTo);
+      lines.push(parent
+        ? `> ↩ ${parent.sender} \`${parent.id}\`: ${quoteText(parent.text)}`
+        : `> ↩ \`${entry.replyTo}\``);
+    }
+    if (entry.attachment) {
+      const { filename, path, error } = entry.attachment;
+      if (!path) lines.push(`📎 ${filename} (not downloaded: ${error ?? "unknown error"})`);
+      else if (isImageFile(filename)) lines.push(`![${filename}](${encodeURI(path)})`);
+      else lines.push(`📎 [${filename}](${encodeURI(path)})`);
+    } else {
+      lines.push(entry.text);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** A `conversation` header line, then one `message` line per entry. */
+export function renderJsonl(transcript: Transcript): string {
+  const { entries, ...header } = transcript;
+  return [
+    { type: "conversation", ...header },
+    ...entries.map((entry) => ({ type: "message", ...entry })),
+  ].map((line) => JSON.stringify(line)).join("\n") + "\n";
+}
+
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  return format === "markdown" ? renderMarkdown(transcript) : renderJsonl(transcript);
+}
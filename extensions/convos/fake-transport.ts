@@ -0,0 +1,220 @@
+/**
+ * In-process fake of the convos CLI for tests and offline development.
+ *
+ * FakeConvosTransport records every call and serves canned data for the
+ * one-shot subcommands; hold() keeps a subcommand pending to simulate a
+ * slow CLI. Each `agent serve` session is a FakeServe that the test drives
+ * by emitting scripted events (ready, message, member_joined, error, exit).
+ * Send and react commands are confirmed with a `sent` event carrying the
+ * command's requestId unless autoConfirm is turned off.
+ */
+
+import { writeFileSync } from "node:fs";
+import { ConvosCliError } from "./cli.js";
+import type { ConvosTransport, MessageQuery, ServeEvent, ServeHandle, ServeListeners } from "./transport.js";
+
+export class FakeServe implements ServeHandle {
+  /** Commands written to stdin, in order */
+  readonly commands: any[] = [];
+  /** Answer send/react commands with a `sent` event */
+  autoConfirm = true;
+  writable = true;
+  exited = false;
+  private sentCount = 0;
+
+  constructor(readonly args: string[], private readonly listeners: ServeListeners) {}
+
+  emit(event: ServeEvent) {
+    if (this.exited) throw new Error("FakeServe has exited");
+    this.listeners.onEvent(event);
+  }
+
+  /** Emit a sequence of events in order. */
+  script(events: ServeEvent[]) {
+    for (const event of events) this.emit(event);
+  }
+
+  ready(conversationId: string, extra: Record<string, unknown> = {}) {
+    this.emit({
+      event: "ready",
+      conversationId,
+      inviteUrl: `https://convos.org/join/${conversationId}`,
+      qrCodePath: null,
+      ...extra,
+    });
+  }
+
+  message(message: { id: string; senderInboxId: string; content: unknown; [key: string]: unknown }) {
+    this.emit({ event: "message", contentType: "text", ...message });
+  }
+
+  memberJoined(inboxId: string) {
+    this.emit({ event: "member_joined", inboxId });
+  }
+
+  error(message: string, requestId?: string) {
+    this.emit({ event: "error", message, ...(requestId ? { requestId } : {}) });
+  }
+
+  stderr(line: string) {
+    this.listeners.onStderr(line);
+  }
+
+  /** Fail like a spawn error in the real transport: a stderr line, then an exit without a code. */
+  spawnError(message = "spawn convos ENOENT") {
+    this.stderr(`convos agent serve failed: ${message}`);
+    this.exit(null);
+  }
+
+  exit(code: number | null = 1) {
+    if (this.exited) return;
+    this.exited = true;
+    this.writable = false;
+    this.listeners.onExit(code);
+  }
+
+  /** Confirm a pending command by hand (when autoConfirm is off). */
+  confirm(cmd: any, id = `sent-${++this.sentCount}`) {
+    this.emit({ event: "sent", requestId: cmd.requestId, id });
+  }
+
+  send(cmd: any) {
+    if (!this.writable) return;
+    this.commands.push(cmd);
+    if (cmd.type === "stop") {
+      queueMicrotask(() => this.exit(0));
+    } else if (this.autoConfirm && (cmd.type === "send" || cmd.type === "react")) {
+      queueMicrotask(() => {
+        if (!this.exited) this.confirm(cmd);
+      });
+    }
+  }
+
+  kill() {
+    this.exit(null);
+  }
+}
+
+export class FakeConvosTransport implements ConvosTransport {
+  available = true;
+  /** Every `agent serve` session started, oldest first */
+  readonly serves: FakeServe[] = [];
+  /** Every one-shot call, for assertions */
+  readonly calls: { method: string; args: unknown[] }[] = [];
+
+  identities: any[] = [{ inboxId: "self-inbox" }];
+  /** Stored history per conversation, oldest first */
+  readonly messages = new Map<string, any[]>();
+  readonly members = new Map<string, any[]>();
+  readonly profiles = new Map<string, any[]>();
+  /** Attachment contents keyed by message ID */
+  readonly attachments = new Map<string, Buffer | string>();
+  /** Conversation names set through renameConversation */
+  readonly names = new Map<string, string>();
+  private inviteCount = 0;
+  private readonly holds = new Map<string, Promise<void>>();
+
+  /** The most recently started serve session. */
+  get lastServe(): FakeServe {
+    const serve = this.serves[this.serves.length - 1];
+    if (!serve) throw new Error("No serve session started");
+    return serve;
+  }
+
+  /** Make calls to a one-shot method wait until the returned function is called. */
+  hold(method: string): () => void {
+    let release!: () => void;
+    this.holds.set(method, new Promise((resolve) => (release = resolve)));
+    return () => {
+      this.holds.delete(method);
+      release();
+    };
+  }
+
+  private async record(method: string, args: unknown[]) {
+    this.calls.push({ method, args });
+    await this.holds.get(method);
+  }
+
+  async isAvailable() {
+    return this.available;
+  }
+
+  serve(args: string[], listeners: ServeListeners): FakeServe {
+    const serve = new FakeServe(args, listeners);
+    this.serves.push(serve);
+    return serve;
+  }
+
+  async init(options: { env: string; output: string }) {
+    await this.record("init", [options]);
+  }
+
+  async identityList(envFile: string | null) {
+    await this.record("identityList", [envFile]);
+    return this.identities;
+  }
+
+  async conversationMessages(conversationId: string, query: MessageQuery, envFile: string | null) {
+    await this.record("conversationMessages", [conversationId, query, envFile]);
+    let messages = this.messages.get(conversationId) ?? [];
+    const after = query.sentAfterNs ? BigInt(query.sentAfterNs) : null;
+    const before = query.sentBeforeNs ? BigInt(query.sentBeforeNs) : null;
+    messages = messages.filter((msg) => {
+      const sentAt = BigInt(msg.sentAtNs ?? 0);
+      if (after !== null && sentAt <= after) return false;
+      if (before !== null && sentAt >= before) return false;
+      if (query.contentType && (msg.contentType ?? "text") !== query.contentType) return false;
+      return true;
+    });
+    if (query.direction === "descending") messages = [...messages].reverse();
+    return messages.slice(0, query.limit);
+  }
+
+  async conversationMembers(conversationId: string, envFile: string | null) {
+    await this.record("conversationMembers", [conversationId, envFile]);
+    return this.members.get(conversationId) ?? [];
+  }
+
+  async conversationProfiles(conversationId: string, envFile: string | null) {
+    await this.record("conversationProfiles", [conversationId, envFile]);
+    return this.profiles.get(conversationId) ?? [];
+  }
+
+  async downloadAttachment(conversationId: string, messageId: string, outputPath: string, envFile: string | null) {
+    await this.record("downloadAttachment", [conversationId, messageId, outputPath, envFile]);
+    const data = this.attachments.get(messageId);
+    if (data === undefined) {
+      throw new ConvosCliError(`No attachment for message ${messageId}`, "exit", [messageId], "attachment not found\n", 1);
+    }
+    writeFileSync(outputPath, data);
+  }
+
+  async sendAttachment(conversationId: string, file: string, envFile: string | null) {
+    await this.record("sendAttachment", [conversationId, file, envFile]);
+  }
+
+  async createInvite(conversationId: string, envFile: string | null) {
+    await this.record("createInvite", [conversationId, envFile]);
+    return { inviteUrl: `https://convos.org/join/${conversationId}?v=${++this.inviteCount}`, qrCodePath: null };
+  }
+
+  async revokeInvite(conversationId: string, envFile: string | null) {
+    await this.record("revokeInvite", [conversationId, envFile]);
+  }
+
+  async removeMembers(conversationId: string, inboxIds: string[], envFile: string | null) {
+    await this.record("removeMembers", [conversationId, inboxIds, envFile]);
+    const members = this.members.get(conversationId) ?? [];
+    this.members.set(conversationId, members.filter((m) => !inboxIds.includes(m.inboxId)));
+  }
+
+  async renameConversation(conversationId: string, name: string, envFile: string | null) {
+    await this.record("renameConversation", [conversationId, name, envFile]);
+    this.names.set(conversationId, name);
+  }
+
+  async leaveConversation(conversationId: string, envFile: string | null) {
+    await this.record("leaveConversation", [conversationId, envFile]);
+  }
+}
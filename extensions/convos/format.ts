@@ -0,0 +1,121 @@
+/**
+ * Outbound message formatting for Convos.
+ *
+ * Convos renders plain text only, so markdown from the model is turned into
+ * readable text before sending, and long replies are split into several
+ * messages on paragraph boundaries.
+ */
+
+/** Longest message sent as one Convos message before splitting. */
+export const MAX_CHUNK_LENGTH = 1000;
+
+function stripInline(line: string): string {
+  return line
+    // Images and links: keep the text, show the URL after it
+    .replace(/!?\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_m, text: string, url: string) =>
+      !text || text === url ? url : `${text} (${url})`
+    )
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, "$2")
+    .replace(/(^|[^\w*])\*(?=\S)([^*]+?)(?<=\S)\*(?!\w)/g, "$1$2")
+    .replace(/(^|[^\w_])_(?=\S)([^_]+?)(?<=\S)_(?!\w)/g, "$1$2")
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, "$1");
+}
+
+/**
+ * Convert markdown to plain text: emphasis, headings, links and rules are
+ * flattened, list bullets become "•", and fenced code is indented.
+ */
+export function markdownToPlainText(markdown: string): string {
+  const out: string[] = [];
+  let inFence = false;
+
+  for (const line of markdown.replace(/\r\n/g, "\n").split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      out.push(line ? `    ${line}` : "");
+      continue;
+    }
+
+    // Horizontal rules and table separator rows carry no text
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) continue;
+    if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) continue;
+
+    const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      out.push(stripInline(heading[1]));
+      continue;
+    }
+
+    const bullet = line.match(/^(\s*)[-*+]\s+(?:\[( |x|X)\]\s+)?(.*)$/);
+    if (bullet) {
+      const box = bullet[2] === undefined ? "" : bullet[2] === " " ? "☐ " : "☑ ";
+      out.push(`${bullet[1]}• ${box}${stripInline(bullet[3])}`);
+      continue;
+    }
+
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      const cells = line.trim().replace(/^\||\|$/g, "").split("|").map((c) => stripInline(c.trim()));
+      out.push(cells.join(" | "));
+      continue;
+    }
+
+    out.push(stripInline(line));
+  }
+
+  return out.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/** Split one oversized block on line, then sentence, then word boundaries. */
+function splitBlock(block: string, maxLength: number): string[] {
+  if (block.length <= maxLength) return [block];
+  for (const separator of ["\n", ". ", " "]) {
+    const parts = block.split(separator);
+    if (parts.length < 2) continue;
+    const chunks: string[] = [];
+    let current = "";
+    for (const [i, part] of parts.entries()) {
+      const piece = i < parts.length - 1 ? part + separator.trimEnd() : part;
+      const joined = current ? `${current}${separator === "\n" ? "\n" : " "}${piece}` : piece;
+      if (joined.length <= maxLength) {
+        current = joined;
+      } else {
+        if (current) chunks.push(current);
+        current = piece;
+      }
+    }
+    if (current) chunks.push(current);
+    return chunks.flatMap((chunk) => splitBlock(chunk, maxLength));
+  }
+  // No separator left — hard split
+  const chunks: string[] = [];
+  for (let i = 0; i < block.length; i += maxLength) chunks.push(block.slice(i, i + maxLength));
+  return chunks;
+}
+
+/** Split text into ordered chunks of at most maxLength, preferring paragraph boundaries. */
+export function splitIntoChunks(text: string, maxLength = MAX_CHUNK_LENGTH): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n{2,}/)) {
+    for (const block of splitBlock(paragraph, maxLength)) {
+      const joined = current ? `${current}\n\n${block}` : block;
+      if (joined.length <= maxLength) {
+        current = joined;
+      } else {
+        chunks.push(current);
+        current = block;
+      }
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/** Full outbound pipeline: markdown to plain text, then split. */
+export function formatOutgoingMessage(text: string, maxLength = MAX_CHUNK_LENGTH): string[] {
+  return splitIntoChunks(markdownToPlainText(text), maxLength);
+}
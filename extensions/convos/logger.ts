@@ -0,0 +1,79 @@
+/**
+ * Headless log output.
+ *
+ * Every line has a level and an event type. The text format prints the
+ * message alone, as the extension always has; the json format prints one
+ * JSON object per line for log pipelines, with the time, level, event,
+ * message and any fields such as conversationId, messageId and sender.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FORMATS = ["text", "json"] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export interface LogFields {
+  /** What happened, e.g. "message_in" or "serve_exit" */
+  event: string;
+  conversationId?: string | null;
+  messageId?: string;
+  /** Profile name or inbox ID of the sender */
+  sender?: string;
+  [key: string]: unknown;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+  /** Receives each formatted line; warnings and errors are meant for stderr */
+  write: (line: string, level: LogLevel) => void;
+  now?: () => Date;
+}
+
+export class Logger {
+  constructor(private readonly options: LoggerOptions) {}
+
+  enabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.options.level);
+  }
+
+  debug(message: string, fields: LogFields) {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields: LogFields) {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields: LogFields) {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields: LogFields) {
+    this.log("error", message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields) {
+    if (!this.enabled(level)) return;
+    if (this.options.format === "text") {
+      this.options.write(message, level);
+      return;
+    }
+    const { event, ...rest } = fields;
+    const time = (this.options.now?.() ?? new Date()).toISOString();
+    // Drop the blank lines and emoji that separate entries in the text format
+    const msg = message.trim().replace(/^[^\p{L}\p{N}]+/u, "");
+    this.options.write(JSON.stringify({ time, level, event, msg, ...withoutUndefined(rest) }, jsonReplacer), level);
+  }
+}
+
+function withoutUndefined(fields: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (value instanceof Error) return { name: value.name, message: value.message };
+  if (typeof value === "bigint") return value.toString();
+  return value;
+}
@@ -0,0 +1,109 @@
+/**
+ * Recent messages keyed by ID, so replies can quote what they answer.
+ *
+ * Both inbound messages and our own sends are cached. The cache keeps the
+ * newest maxEntries messages in memory and mirrors them to a JSONL file:
+ * additions are appended, and the file is rewritten (temp file and rename)
+ * once it holds twice as many lines as the limit.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+export const MESSAGE_CACHE_LIMIT = 1000;
+
+/** Longest quote of a parent message shown with a reply. */
+export const QUOTE_MAX_CHARS = 200;
+
+export interface CachedMessage {
+  id: string;
+  conversationId: string;
+  senderInboxId: string | null;
+  senderName: string | null;
+  /** Sent by this agent */
+  fromSelf: boolean;
+  text: string;
+  replyTo?: string;
+  sentAt?: string;
+}
+
+export class MessageCache {
+  private readonly messages = new Map<string, CachedMessage>();
+  private fileLines = 0;
+
+  constructor(readonly path: string | null, readonly maxEntries = MESSAGE_CACHE_LIMIT) {
+    this.load();
+  }
+
+  get size(): number {
+    return this.messages.size;
+  }
+
+  get(id: string): CachedMessage | undefined {
+    return this.messages.get(id);
+  }
+
+  add(message: CachedMessage) {
+    const existing = this.messages.get(message.id);
+    // History fetched later may not know the sender's profile name
+    const merged = { ...message, senderName: message.senderName ?? existing?.senderName ?? null };
+    if (existing && JSON.stringify(existing) === JSON.stringify(merged)) return;
+    this.messages.delete(message.id);
+    this.messages.set(message.id, merged);
+    this.evict();
+    this.append(merged);
+  }
+
+  private evict() {
+    while (this.messages.size > this.maxEntries) {
+      this.messages.delete(this.messages.keys().next().value!);
+    }
+  }
+
+  private load() {
+    if (!this.path || !existsSync(this.path)) return;
+    try {
+      for (const line of readFileSync(this.path, "utf-8").split("\n")) {
+        if (!line.trim()) continue;
+        this.fileLines++;
+        try {
+          const message = JSON.parse(line) as CachedMessage;
+          if (!message?.id) continue;
+          this.messages.delete(message.id);
+          this.messages.set(message.id, message);
+        } catch {
+          // A torn last line from a crash; the rest is still usable
+        }
+      }
+      this.evict();
+    } catch {}
+  }
+
+  private append(message: CachedMessage) {
+    if (!this.path) return;
+    try {
+      if (this.fileLines + 1 > this.maxEntries * 2) {
+        this.compact();
+        return;
+      }
+      mkdirSync(dirname(this.path), { recursive: true });
+      appendFileSync(this.path, JSON.stringify(message) + "\n");
+      this.fileLines++;
+    } catch {}
+  }
+
+  private compact() {
+    const path = this.path!;
+    const tmp = `${path}.${process.pid}.tmp`;
+    const lines = [...this.messages.values()].map((message) => JSON.stringify(message) + "\n");
+    writeFileSync(tmp, lines.join(""));
+    renameSync(tmp, path);
+    this.fileLines = lines.length;
+  }
+}
+
+/** One-line, length-limited quote of a message's text. */
+export function quoteText(text: string, max = QUOTE_MAX_CHARS): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > max ? line.slice(0, max - 1) + "…" : line;
+}
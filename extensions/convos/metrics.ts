@@ -0,0 +1,86 @@
+/**
+ * Counters for /convos-status and the optional metrics file.
+ *
+ * Latency is measured from the first unanswered inbound message of a
+ * conversation to the next message the agent sends there. Only the most
+ * recent samples are kept for the percentiles.
+ */
+
+import { mkdirSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+const LATENCY_SAMPLES = 200;
+
+export interface MetricsSnapshot {
+  startedAt: string;
+  messagesIn: number;
+  messagesOut: number;
+  steerTurns: number;
+  catchUp: { runs: number; messages: number; largest: number };
+  downloadFailures: number;
+  childRestarts: number;
+  replyLatencyMs: { count: number; p50: number | null; p95: number | null; max: number | null };
+}
+
+export class Metrics {
+  messagesIn = 0;
+  messagesOut = 0;
+  steerTurns = 0;
+  catchUpRuns = 0;
+  catchUpMessages = 0;
+  largestCatchUp = 0;
+  downloadFailures = 0;
+  childRestarts = 0;
+  private latencies: number[] = [];
+  private replyCount = 0;
+
+  constructor(private readonly startedAt = new Date()) {}
+
+  recordCatchUp(messages: number) {
+    this.catchUpRuns++;
+    this.catchUpMessages += messages;
+    this.largestCatchUp = Math.max(this.largestCatchUp, messages);
+  }
+
+  recordReplyLatency(ms: number) {
+    this.replyCount++;
+    this.latencies.push(ms);
+    if (this.latencies.length > LATENCY_SAMPLES) this.latencies.shift();
+  }
+
+  snapshot(): MetricsSnapshot {
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    const percentile = (p: number) => (sorted.length > 0 ? sorted[Math.ceil((p / 100) * sorted.length) - 1] : null);
+    return {
+      startedAt: this.startedAt.toISOString(),
+      messagesIn: this.messagesIn,
+      messagesOut: this.messagesOut,
+      steerTurns: this.steerTurns,
+      catchUp: { runs: this.catchUpRuns, messages: this.catchUpMessages, largest: this.largestCatchUp },
+      downloadFailures: this.downloadFailures,
+      childRestarts: this.childRestarts,
+      replyLatencyMs: { count: this.replyCount, p50: percentile(50), p95: percentile(95), max: sorted.at(-1) ?? null },
+    };
+  }
+}
+
+const seconds = (ms: number | null) => (ms === null ? "–" : `${(ms / 1000).toFixed(1)}s`);
+
+/** Lines for /convos-status. */
+export function formatMetrics(snapshot: MetricsSnapshot): string[] {
+  const { catchUp, replyLatencyMs: latency } = snapshot;
+  return [
+    `Messages: ${snapshot.messagesIn} in, ${snapshot.messagesOut} out; ${snapshot.steerTurns} turn(s) started from Convos`,
+    `Catch-up: ${catchUp.runs} run(s), ${catchUp.messages} message(s), largest ${catchUp.largest}`,
+    `Download failures: ${snapshot.downloadFailures}; child restarts: ${snapshot.childRestarts}`,
+    `Reply latency: ${latency.count} repl${latency.count === 1 ? "y" : "ies"}, p50 ${seconds(latency.p50)}, p95 ${seconds(latency.p95)}, max ${seconds(latency.max)}`,
+  ];
+}
+
+/** Replace the metrics file with a snapshot (temp file and rename). */
+export function writeMetricsFile(path: string, snapshot: MetricsSnapshot) {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify({ ...snapshot, writtenAt: new Date().toISOString() }, null, 2) + "\n");
+  renameSync(tmp, path);
+}
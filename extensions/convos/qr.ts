@@ -0,0 +1,417 @@
+/**
+ * Invite QR codes for terminals.
+ *
+ * `convos` writes a PNG of the invite QR code, which only iTerm2's inline
+ * image escape can show. This module encodes the invite URL locally (byte
+ * mode, error correction level M) and draws it with whichever protocol the
+ * terminal speaks: Kitty graphics, Sixel, or Unicode half-blocks, which work
+ * anywhere text does, including CI logs.
+ */
+
+import { readFileSync } from "node:fs";
+
+export const QR_RENDERERS = ["auto", "iterm2", "kitty", "sixel", "text"] as const;
+export type QrRenderer = (typeof QR_RENDERERS)[number];
+
+/** Rows of modules, true for dark. */
+export type QrMatrix = boolean[][];
+
+// --- Encoding ---
+
+// Error correction level M, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const ECC_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+// Format bits of level M
+const ECC_FORMAT_BITS = 0;
+
+const bit = (value: number, i: number) => ((value >>> i) & 1) !== 0;
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ECC_BLOCKS[version];
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => (result[i] ^= gfMultiply(coefficient, factor)));
+  }
+  return result;
+}
+
+/** Split data into blocks, append error correction to each and interleave them. */
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blockCount = ECC_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const block = data.slice(k, k + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Placeholder so short and long blocks line up while interleaving
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = version * 4 + 10; result.length < count; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+/** ISO 18004 mask penalty: long runs, 2×2 blocks, finder-like patterns and imbalance. */
+function penalty(modules: QrMatrix): number {
+  const size = modules.length;
+  let score = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_row, x) => modules.map((row) => row[x])),
+  ];
+  for (const line of lines) {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+        continue;
+      }
+      if (run >= 5) score += run - 2;
+      run = 1;
+    }
+    for (let i = 0; i + 11 <= size; i++) {
+      if (FINDER_LIKE.some((pattern) => pattern.every((dark, k) => line[i + k] === dark))) score += 40;
+    }
+  }
+  for (let y = 0; y + 1 < size; y++) {
+    for (let x = 0; x + 1 < size; x++) {
+      const color = modules[y][x];
+      if (modules[y][x + 1] === color && modules[y + 1][x] === color && modules[y + 1][x + 1] === color) score += 3;
+    }
+  }
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+}
+
+/** Encode text as a QR code at the smallest version that fits. */
+export function encodeQr(text: string): QrMatrix {
+  const bytes = [...Buffer.from(text, "utf-8")];
+  let version = 1;
+  const capacityBits = (v: number) => dataCodewords(v) * 8;
+  const neededBits = (v: number) => 4 + (v <= 9 ? 8 : 16) + bytes.length * 8;
+  while (neededBits(version) > capacityBits(version)) {
+    if (++version > 40) throw new Error("Text is too long for a QR code");
+  }
+
+  // Byte mode segment, terminator and padding
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  for (const byte of bytes) append(byte, 8);
+  const capacity = capacityBits(version);
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+
+  const size = version * 4 + 17;
+  const modules: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction: boolean[][] = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  // Timing patterns, then finders and alignment patterns over them
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cy, i) => positions.forEach((cx, j) => {
+    // Skip the three corners taken by finder patterns
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  const drawFormatBits = (mask: number) => {
+    const value = (ECC_FORMAT_BITS << 3) | mask;
+    let remainder = value;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const format = ((value << 10) | remainder) ^ 0x5412;
+    for (let i = 0; i <= 5; i++) setFunction(8, i, bit(format, i));
+    setFunction(8, 7, bit(format, 6));
+    setFunction(8, 8, bit(format, 7));
+    setFunction(7, 8, bit(format, 8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(format, i));
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(format, i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(format, i));
+    setFunction(8, size - 8, true);
+  };
+  drawFormatBits(0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const versionBits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, bit(versionBits, i));
+      setFunction(b, a, bit(versionBits, i));
+    }
+  }
+
+  // Codewords in the zigzag order, two columns at a time from the bottom right
+  const codewords = addErrorCorrection(data, version);
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (isFunction[y][x] || index >= codewords.length * 8) continue;
+        modules[y][x] = bit(codewords[index >>> 3], 7 - (index & 7));
+        index++;
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(mask);
+    drawFormatBits(mask);
+    const score = penalty(modules);
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    applyMask(mask);
+  }
+  applyMask(bestMask);
+  drawFormatBits(bestMask);
+  return modules;
+}
+
+// --- Rendering ---
+
+// Scanners need a light margin around the code
+const QUIET_ZONE = 2;
+const PIXELS_PER_MODULE = 6;
+
+function withQuietZone(matrix: QrMatrix): QrMatrix {
+  const size = matrix.length + QUIET_ZONE * 2;
+  return Array.from({ length: size }, (_row, y) =>
+    Array.from({ length: size }, (_col, x) => matrix[y - QUIET_ZONE]?.[x - QUIET_ZONE] ?? false)
+  );
+}
+
+/**
+ * Two rows of modules per line of half-block characters. Light modules are
+ * drawn, so the code reads correctly on the usual dark terminal background.
+ */
+export function renderQrText(matrix: QrMatrix): string {
+  const rows = withQuietZone(matrix);
+  const lines: string[] = [];
+  for (let y = 0; y < rows.length; y += 2) {
+    let line = "";
+    for (let x = 0; x < rows.length; x++) {
+      const top = !rows[y][x];
+      const bottom = y + 1 < rows.length ? !rows[y + 1][x] : false;
+      line += top && bottom ? "█" : top ? "▀" : bottom ? "▄" : " ";
+    }
+    lines.push(line);
+  }
+  return lines.join("\n");
+}
+
+/** Kitty graphics protocol: raw RGB pixels, sent in chunks of 4096 base64 bytes. */
+export function renderQrKitty(matrix: QrMatrix, scale = PIXELS_PER_MODULE): string {
+  const rows = withQuietZone(matrix);
+  const size = rows.length * scale;
+  const pixels = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!rows[Math.floor(y / scale)][Math.floor(x / scale)]) pixels.fill(0xff, (y * size + x) * 3, (y * size + x) * 3 + 3);
+    }
+  }
+  const base64 = pixels.toString("base64");
+  const chunks = base64.match(/.{1,4096}/g) ?? [];
+  return chunks.map((chunk, i) => {
+    const more = i < chunks.length - 1 ? 1 : 0;
+    const control = i === 0 ? `a=T,f=24,s=${size},v=${size},m=${more}` : `m=${more}`;
+    return `\x1b_G${control};${chunk}\x1b\\`;
+  }).join("");
+}
+
+/** Sixel: two colour registers, six pixel rows per band. */
+export function renderQrSixel(matrix: QrMatrix, scale = PIXELS_PER_MODULE): string {
+  const rows = withQuietZone(matrix);
+  const size = rows.length * scale;
+  const dark = (x: number, y: number) => y < size && rows[Math.floor(y / scale)][Math.floor(x / scale)];
+  const runLength = (line: string) => line.replace(/(.)\1{3,}/g, (run, char: string) => `!${run.length}${char}`);
+
+  let out = `\x1bPq"1;1;${size};${size}#0;2;100;100;100#1;2;0;0;0`;
+  for (let band = 0; band < size; band += 6) {
+    for (const color of [0, 1]) {
+      let line = "";
+      for (let x = 0; x < size; x++) {
+        let sixel = 0;
+        for (let i = 0; i < 6; i++) {
+          if (band + i < size && dark(x, band + i) === (color === 1)) sixel |= 1 << i;
+        }
+        line += String.fromCharCode(63 + sixel);
+      }
+      out += `#${color}${runLength(line)}${color === 0 ? "$" : "-"}`;
+    }
+  }
+  return out + "\x1b\\";
+}
+
+/** iTerm2 inline image of the PNG written by `convos`. */
+export function renderQrITerm2(pngPath: string): string {
+  const base64 = readFileSync(pngPath).toString("base64");
+  const filename = Buffer.from(pngPath).toString("base64");
+  return `\x1b]1337;File=name=${filename};inline=1;width=auto;preserveAspectRatio=1:${base64}\x07`;
+}
+
+/**
+ * Pick a renderer from the environment. tmux and screen pass image escapes
+ * on unreliably, and output that is not a terminal gets text.
+ */
+export function detectQrRenderer(env: NodeJS.ProcessEnv = process.env, isTTY = true): Exclude<QrRenderer, "auto"> {
+  const termProgram = env.TERM_PROGRAM?.toLowerCase() ?? "";
+  const term = env.TERM?.toLowerCase() ?? "";
+  if (!isTTY || env.TMUX || term.startsWith("tmux") || term.startsWith("screen")) return "text";
+  if (env.KITTY_WINDOW_ID || termProgram === "kitty" || term === "xterm-kitty") return "kitty";
+  if (termProgram === "ghostty" || env.GHOSTTY_RESOURCES_DIR) return "kitty";
+  if (env.WEZTERM_PANE || termProgram === "wezterm") return "kitty";
+  if (env.ITERM_SESSION_ID || termProgram === "iterm.app") return "iterm2";
+  if (term.includes("sixel") || ["foot", "mlterm", "contour"].some((name) => term.startsWith(name) || termProgram === name)) {
+    return "sixel";
+  }
+  if (env.KONSOLE_VERSION || termProgram === "mintty") return "sixel";
+  return "text";
+}
+
+/**
+ * Draw an invite QR code. iTerm2 shows the PNG from `convos` when there is
+ * one; every other renderer encodes the invite URL. Null when neither is known.
+ */
+export function renderQr(
+  renderer: Exclude<QrRenderer, "auto">,
+  invite: { inviteUrl?: string | null; qrCodePath?: string | null },
+): string | null {
+  if (renderer === "iterm2" && invite.qrCodePath) {
+    try {
+      return renderQrITerm2(invite.qrCodePath);
+    } catch {
+      // Unreadable PNG: draw the code from the URL instead
+    }
+  }
+  if (!invite.inviteUrl) return null;
+  const matrix = encodeQr(invite.inviteUrl);
+  if (renderer === "kitty") return renderQrKitty(matrix);
+  if (renderer === "sixel") return renderQrSixel(matrix);
+  return renderQrText(matrix);
+}
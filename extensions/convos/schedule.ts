@@ -0,0 +1,120 @@
+/**
+ * Times for convos_schedule.
+ *
+ * A schedule runs once at a time given as a duration ("in 2h"), a local
+ * time of day ("09:00", "9am", "tomorrow 17:30") or an ISO 8601 time, and
+ * may repeat hourly, daily, on weekdays, weekly or at a fixed interval.
+ * Calendar repeats keep the local time of day across DST changes.
+ */
+
+export const REPEAT_KEYWORDS = ["hourly", "daily", "weekdays", "weekly"] as const;
+
+const UNIT_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 7 * 86_400_000 };
+
+/** Parse a duration such as "90m", "2h", "1h30m", "1d" or "1w". Minutes are the smallest unit. */
+export function parseDuration(value: string): number | null {
+  const text = value.trim().toLowerCase().replace(/\s+/g, "");
+  if (!/^(\d+[mhdw])+$/.test(text)) return null;
+  let ms = 0;
+  for (const [, amount, unit] of text.matchAll(/(\d+)([mhdw])/g)) ms += Number(amount) * UNIT_MS[unit];
+  return ms > 0 ? ms : null;
+}
+
+/** "17:30", "9am" or "9:30pm" as hours and minutes. */
+function parseTimeOfDay(value: string): { hours: number; minutes: number } | null {
+  const match = value.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match || (!match[2] && !match[3])) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (match[3] === "pm" ? 12 : 0);
+  }
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+}
+
+/**
+ * When a schedule first runs: "in 2h" or "2h" from now, the next local
+ * occurrence of a time of day (optionally "today" or "tomorrow"), or an
+ * ISO 8601 time.
+ */
+export function parseScheduleTime(value: string, now = new Date()): Date | null {
+  const text = value.trim();
+  const duration = parseDuration(text.replace(/^in\s+/i, ""));
+  if (duration !== null) return new Date(now.getTime() + duration);
+
+  const match = text.match(/^(?:(today|tomorrow)\s+)?(?:at\s+)?(.+)$/i);
+  const time = match ? parseTimeOfDay(match[2]) : null;
+  if (match && time) {
+    const day = match[1]?.toLowerCase();
+    const at = new Date(now.getFullYear(), now.getMonth(), now.getDate(), time.hours, time.minutes);
+    if (day === "tomorrow" || (!day && at <= now)) at.setDate(at.getDate() + 1);
+    return at;
+  }
+
+  // Only full dates, so "5" or "March" are not taken for a time
+  if (!/^\d{4}-\d{2}-\d{2}/.test(text)) return null;
+  const ms = Date.parse(text);
+  return Number.isNaN(ms) ? null : new Date(ms);
+}
+
+/** Normalize a repeat setting: a keyword or an interval of at least 5 minutes. */
+export function parseRepeat(value: string): string | null {
+  const text = value.trim().toLowerCase();
+  if ((REPEAT_KEYWORDS as readonly string[]).includes(text)) return text;
+  const every = text.replace(/^every\s+/, "");
+  const ms = parseDuration(every);
+  return ms !== null && ms >= 5 * 60_000 ? every.replace(/\s+/g, "") : null;
+}
+
+function step(date: Date, repeat: string): Date {
+  const next = new Date(date);
+  switch (repeat) {
+    case "hourly":
+      return new Date(date.getTime() + UNIT_MS.h);
+    case "daily":
+      next.setDate(next.getDate() + 1);
+      return next;
+    case "weekly":
+      next.setDate(next.getDate() + 7);
+      return next;
+    case "weekdays":
+      do next.setDate(next.getDate() + 1);
+      while (next.getDay() === 0 || next.getDay() === 6);
+      return next;
+    default:
+      return new Date(date.getTime() + (parseDuration(repeat) ?? UNIT_MS.d));
+  }
+}
+
+/** Move a first run on a weekend to Monday for a weekdays schedule. */
+export function alignToRepeat(dueAt: Date, repeat: string | null): Date {
+  const aligned = new Date(dueAt);
+  while (repeat === "weekdays" && (aligned.getDay() === 0 || aligned.getDay() === 6)) aligned.setDate(aligned.getDate() + 1);
+  return aligned;
+}
+
+/** The first run of a repeating schedule after `after`. */
+export function nextOccurrence(dueAt: Date, repeat: string, after: Date): Date {
+  let next = step(dueAt, repeat);
+  while (next <= after) next = step(next, repeat);
+  return next;
+}
+
+/** "every day", "every 2h" and so on, for tool results and lists. */
+export function describeRepeat(repeat: string | null): string {
+  switch (repeat) {
+    case null:
+      return "once";
+    case "hourly":
+      return "every hour";
+    case "daily":
+      return "every day";
+    case "weekdays":
+      return "every weekday";
+    case "weekly":
+      return "every week";
+    default:
+      return `every ${repeat}`;
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * Persistent conversation state for a worktree.
+ *
+ * The state file lists the conversations to resume (with their catch-up
+ * position, member roster, access policy and progress level) and a history
+ * of stopped conversations that can be resumed by name. It also holds the
+ * messages and prompts scheduled for later, and the outbox of messages
+ * accepted while a conversation's agent was down.
+ *
+ * Several pi instances may share one file, so StateStore never writes a
+ * snapshot of its own view. Changes are queued as mutations, batched for
+ * writeDelayMs, and applied to a fresh read of the file while holding an
+ * advisory lock. The result is written to a temp file and renamed into place,
+ * so a crash mid-write leaves the previous state intact.
+ */
+
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+  writeSync,
+} from "node:fs";
+import { dirname } from "node:path";
+
+export const STATE_VERSION = 4;
+
+/** Stopped conversations kept for resuming, newest first. */
+export const HISTORY_LIMIT = 50;
+
+// A lock older than this is assumed to be left behind by a crashed writer
+const LOCK_STALE_MS = 10_000;
+// How often a write tries again while another instance holds the lock
+const LOCK_RETRY_MS = 50;
+// Waiting longer than this on the lock is worth a warning
+const LOCK_WAIT_MS = 2_000;
+
+export interface PersistedConversation {
+  conversationId: string;
+  /** Name the conversation was created with, for resuming by name */
+  name?: string | null;
+  inviteUrl?: string | null;
+  lastSeenTimestampNs?: string | null;
+  members?: { inboxId: string; name: string | null }[];
+  access?: { roles: Record<string, string> };
+  progress?: string;
+  /** ISO time of the last change */
+  updatedAt?: string;
+}
+
+export interface PastConversation extends PersistedConversation {
+  /** ISO time the conversation was stopped */
+  stoppedAt: string;
+}
+
+export interface PersistedSchedule {
+  id: string;
+  conversationId: string;
+  /** message: the text is sent as is. prompt: the text starts an agent turn that replies in the conversation */
+  kind: "message" | "prompt";
+  text: string;
+  /** ISO time of the next run */
+  dueAt: string;
+  /** hourly, daily, weekdays, weekly or an interval such as "2h"; null runs once */
+  repeat: string | null;
+  /** What happens to a run that came due while pi was down */
+  ifMissed: "run" | "skip";
+  /** Role of the member the schedule was made for, applied to prompt turns */
+  role?: string | null;
+  createdAt: string;
+  lastRunAt?: string | null;
+}
+
+export interface PersistedOutboxEntry {
+  id: string;
+  conversationId: string;
+  /** A stdin command for `convos agent serve`, or a file to send as an attachment */
+  command:
+    | { type: "send"; text: string; replyTo?: string }
+    | { type: "react"; messageId: string; emoji: string; action?: "add" | "remove" }
+    | { type: "file"; file: string };
+  /** ISO time the tool call was accepted */
+  queuedAt: string;
+}
+
+export interface PersistedState {
+  version: number;
+  /** Conversations resumed on the next start */
+  conversations: PersistedConversation[];
+  /** Stopped conversations, newest first */
+  history: PastConversation[];
+  /** Future sends, soonest first */
+  schedules: PersistedSchedule[];
+  /** Commands waiting for their conversation's agent, oldest first */
+  outbox: PersistedOutboxEntry[];
+}
+
+export function emptyState(): PersistedState {
+  return { version: STATE_VERSION, conversations: [], history: [], schedules: [], outbox: [] };
+}
+
+// MIGRATIONS[n] upgrades a state of version n to version n + 1
+const MIGRATIONS: ((raw: any) => any)[] = [
+  // 0 → 1: the first files held a single conversation at the top level
+  (raw) => ({ conversations: raw?.conversationId ? [raw] : [] }),
+  // 1 → 2: versioned, with a history of stopped conversations
+  (raw) => ({ conversations: raw.conversations, history: [] }),
+  // 2 → 3: scheduled messages and prompts
+  (raw) => ({ ...raw, schedules: [] }),
+  // 3 → 4: outbox
+  (raw) => ({ ...raw, outbox: [] }),
+];
+
+/** Version of a parsed state file. Files from before versioning have none. */
+function versionOf(raw: any): number {
+  if (typeof raw?.version === "number") return raw.version;
+  return Array.isArray(raw?.conversations) ? 1 : 0;
+}
+
+/** Upgrade a parsed state file of any earlier version to STATE_VERSION. */
+export function migrateState(raw: unknown): PersistedState {
+  let state: any = raw;
+  for (let version = versionOf(raw); version < STATE_VERSION; version++) {
+    state = MIGRATIONS[version](state);
+  }
+  return {
+    version: STATE_VERSION,
+    conversations: Array.isArray(state?.conversations) ? state.conversations.filter((c: any) => c?.conversationId) : [],
+    history: Array.isArray(state?.history) ? state.history.filter((c: any) => c?.conversationId) : [],
+    schedules: Array.isArray(state?.schedules) ? state.schedules.filter((s: any) => s?.id && s?.conversationId && s?.dueAt) : [],
+    outbox: Array.isArray(state?.outbox) ? state.outbox.filter((e: any) => e?.id && e?.conversationId && e?.command?.type) : [],
+  };
+}
+
+function laterNs(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a) return b ?? null;
+  if (!b) return a;
+  return BigInt(a) >= BigInt(b) ? a : b;
+}
+
+/**
+ * Insert or replace a conversation. The catch-up position only moves
+ * forward, so an instance that read an older position never rewinds it.
+ */
+export function upsertConversation(state: PersistedState, entry: PersistedConversation) {
+  const index = state.conversations.findIndex((c) => c.conversationId === entry.conversationId);
+  const existing = index >= 0 ? state.conversations[index] : undefined;
+  const merged: PersistedConversation = {
+    ...existing,
+    ...entry,
+    name: entry.name ?? existing?.name ?? null,
+    lastSeenTimestampNs: laterNs(existing?.lastSeenTimestampNs, entry.lastSeenTimestampNs),
+  };
+  if (index >= 0) state.conversations[index] = merged;
+  else state.conversations.push(merged);
+  // A resumed conversation is no longer in the past
+  state.history = state.history.filter((c) => c.conversationId !== entry.conversationId);
+}
+
+/** Move a conversation from the resume list to the history. */
+export function archiveConversation(state: PersistedState, conversationId: string, stoppedAt = new Date()) {
+  const entry = state.conversations.find((c) => c.conversationId === conversationId);
+  if (!entry) return;
+  state.conversations = state.conversations.filter((c) => c.conversationId !== conversationId);
+  state.history = [
+    { ...entry, stoppedAt: stoppedAt.toISOString() },
+    ...state.history.filter((c) => c.conversationId !== conversationId),
+  ].slice(0, HISTORY_LIMIT);
+}
+
+/** Forget a conversation entirely, e.g. after leaving it. */
+export function removeConversation(state: PersistedState, conversationId: string) {
+  state.conversations = state.conversations.filter((c) => c.conversationId !== conversationId);
+  state.history = state.history.filter((c) => c.conversationId !== conversationId);
+  state.schedules = state.schedules.filter((s) => s.conversationId !== conversationId);
+  state.outbox = state.outbox.filter((e) => e.conversationId !== conversationId);
+}
+
+/** Insert or replace a schedule, keeping the list ordered by due time. */
+export function upsertSchedule(state: PersistedState, schedule: PersistedSchedule) {
+  state.schedules = [...state.schedules.filter((s) => s.id !== schedule.id), schedule]
+    .sort((a, b) => Date.parse(a.dueAt) - Date.parse(b.dueAt));
+}
+
+export function removeSchedule(state: PersistedState, id: string) {
+  state.schedules = state.schedules.filter((s) => s.id !== id);
+}
+
+/** Remove outbox entries by ID, or every entry when no IDs are given. */
+export function removeOutboxEntries(state: PersistedState, ids?: string[]) {
+  state.outbox = ids ? state.outbox.filter((e) => !ids.includes(e.id)) : [];
+}
+
+/**
+ * Find a saved conversation by ID or by name (case-insensitive). Current
+ * conversations win over past ones, and newer past ones over older.
+ */
+export function findSavedConversation(state: PersistedState, idOrName: string): PersistedConversation | undefined {
+  const wanted = idOrName.trim().toLowerCase();
+  const all = [...state.conversations, ...state.history];
+  return all.find((c) => c.conversationId === idOrName)
+    ?? all.find((c) => c.name?.toLowerCase() === wanted);
+}
+
+function sleepSync(ms: number) {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: any) {
+    // EPERM: the process exists but belongs to someone else
+    return err.code === "EPERM";
+  }
+}
+
+export interface StateStoreOptions {
+  /** Batch changes for this long before writing; 0 writes immediately */
+  writeDelayMs: number;
+  /** Called for problems worth telling the user about */
+  onWarning?: (message: string) => void;
+}
+
+export class StateStore {
+  readonly lockPath: string;
+  writeDelayMs: number;
+  private readonly onWarning: (message: string) => void;
+  private pending: ((state: PersistedState) => void)[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Set when the file was written by a newer version, which we must not overwrite
+  private readOnly = false;
+  private warned = new Set<string>();
+  // When the current wait for another instance's lock began
+  private lockWaitSince: number | null = null;
+
+  constructor(readonly path: string, options: StateStoreOptions) {
+    this.lockPath = `${path}.lock`;
+    this.writeDelayMs = options.writeDelayMs;
+    this.onWarning = options.onWarning ?? (() => {});
+  }
+
+  /** Current state, including changes not written yet. */
+  read(): PersistedState {
+    const state = this.readFile({ quarantine: false });
+    for (const mutate of this.pending) mutate(state);
+    return state;
+  }
+
+  /** Queue a change. It is written after writeDelayMs, together with any others. */
+  update(mutate: (state: PersistedState) => void) {
+    this.pending.push(mutate);
+    if (this.writeDelayMs <= 0) {
+      this.flush();
+      return;
+    }
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, this.writeDelayMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Write queued changes now. While another instance holds the lock the write
+   * is retried on a timer, so the event loop never blocks on it; only a final
+   * flush at shutdown passes waitMs to wait for the lock synchronously.
+   */
+  flush({ waitMs = 0 }: { waitMs?: number } = {}) {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending.length === 0 || this.readOnly) return;
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    const deadline = Date.now() + waitMs;
+    let locked = this.acquireLock();
+    while (!locked && Date.now() < deadline) {
+      sleepSync(LOCK_RETRY_MS);
+      locked = this.acquireLock();
+    }
+    if (!locked && waitMs > 0) {
+      this.onWarning(`Another process held ${this.lockPath} for ${waitMs} ms; ${this.pending.length} state change(s) were not saved.`);
+      return;
+    }
+    if (!locked) {
+      this.lockWaitSince ??= Date.now();
+      if (Date.now() - this.lockWaitSince >= LOCK_WAIT_MS) {
+        this.warnOnce("lock", `Another process holds ${this.lockPath}; state changes will be retried.`);
+      }
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, LOCK_RETRY_MS);
+      this.timer.unref?.();
+      return;
+    }
+    this.lockWaitSince = null;
+    try {
+      const state = this.readFile({ quarantine: true });
+      if (this.readOnly) return;
+      for (const mutate of this.pending) mutate(state);
+      this.writeAtomic(JSON.stringify(state, null, 2) + "\n");
+      this.pending = [];
+    } finally {
+      this.releaseLock();
+    }
+  }
+
+  private readFile({ quarantine }: { quarantine: boolean }): PersistedState {
+    if (!existsSync(this.path)) return emptyState();
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(this.path, "utf-8"));
+    } catch {
+      if (!quarantine) {
+        this.warnOnce("corrupt", `${this.path} is unreadable; it will be set aside on the next write.`);
+        return emptyState();
+      }
+      // Keep the damaged file for inspection instead of silently replacing it
+      const aside = `${this.path}.corrupt-${Date.now()}`;
+      try { renameSync(this.path, aside); } catch {}
+      this.onWarning(`${this.path} was unreadable and has been moved to ${aside}. Saved conversations were reset.`);
+      return emptyState();
+    }
+    if (versionOf(raw) > STATE_VERSION) {
+      this.readOnly = true;
+      this.warnOnce(
+        "version",
+        `${this.path} was written by a newer version of the extension (state version ${versionOf(raw)}); changes will not be saved.`,
+      );
+    }
+    return migrateState(raw);
+  }
+
+  private writeAtomic(data: string) {
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    const fd = openSync(tmp, "w");
+    try {
+      writeSync(fd, data);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tmp, this.path);
+  }
+
+  /** Take the lock if it is free or stale, without waiting. */
+  private acquireLock(): boolean {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        writeFileSync(this.lockPath, JSON.stringify({ pid: process.pid, at: Date.now() }), { flag: "wx" });
+        return true;
+      } catch (err: any) {
+        if (err.code !== "EEXIST") throw err;
+      }
+      if (!this.lockIsStale()) return false;
+      try { unlinkSync(this.lockPath); } catch {}
+    }
+    return false;
+  }
+
+  private lockIsStale(): boolean {
+    try {
+      const lock = JSON.parse(readFileSync(this.lockPath, "utf-8"));
+      return Date.now() - lock.at > LOCK_STALE_MS || !isProcessAlive(lock.pid);
+    } catch {
+      // Unreadable: being written right now, or its writer crashed before filling it
+      try {
+        return Date.now() - statSync(this.lockPath).mtimeMs > LOCK_STALE_MS;
+      } catch {
+        return true;
+      }
+    }
+  }
+
+  private releaseLock() {
+    try { unlinkSync(this.lockPath); } catch {}
+  }
+
+  private warnOnce(key: string, message: string) {
+    if (this.warned.has(key)) return;
+    this.warned.add(key);
+    this.onWarning(message);
+  }
+}
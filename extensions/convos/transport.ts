@@ -0,0 +1,229 @@
+/**
+ * Transport layer between the extension and the convos CLI.
+ *
+ * Everything the extension asks of `convos` goes through ConvosTransport:
+ * the long-running `agent serve` NDJSON stream with its stdin commands, and
+ * the one-shot subcommands (messages, attachments, members, identities, init),
+ * which run asynchronously through ./cli.ts.
+ * createCliTransport() talks to the globally installed CLI; fake-transport.ts
+ * provides an in-process stand-in for tests.
+ */
+
+import { spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+import { ConvosCliError, envFileArgs, runConvos, runConvosJson } from "./cli.js";
+
+/** One parsed NDJSON event from `convos agent serve` (ready, message, member_joined, sent, error). */
+export type ServeEvent = { event: string; [key: string]: any };
+
+export interface ServeListeners {
+  onEvent(event: ServeEvent): void;
+  onStderr(line: string): void;
+  onExit(code: number | null): void;
+}
+
+/** A running `convos agent serve` session. */
+export interface ServeHandle {
+  /** Whether stdin still accepts commands */
+  readonly writable: boolean;
+  /** Write one NDJSON command to stdin */
+  send(cmd: object): void;
+  /** Terminate the session */
+  kill(): void;
+}
+
+export interface MessageQuery {
+  limit: number;
+  direction: "ascending" | "descending";
+  contentType?: string;
+  sentAfterNs?: string | null;
+  sentBeforeNs?: string | null;
+}
+
+/** A conversation invite as printed by `convos conversation invite --json`. */
+export interface Invite {
+  inviteUrl: string;
+  qrCodePath: string | null;
+}
+
+/** Options accepted by every one-shot call. */
+export interface CallOptions {
+  /** Cancel the command, e.g. when the tool call that needs it is aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * One-shot calls run asynchronously and reject with a ConvosCliError
+ * (see ./cli.ts) that carries the command's stderr.
+ */
+export interface ConvosTransport {
+  /** Whether the convos CLI can be used at all */
+  isAvailable(): Promise<boolean>;
+  /** Start `convos agent serve` with the given args */
+  serve(args: string[], listeners: ServeListeners): ServeHandle;
+  /** `convos init` — create a new identity in the given env file */
+  init(options: { env: string; output: string }, call?: CallOptions): Promise<void>;
+  /** `convos identity list` */
+  identityList(envFile: string | null, call?: CallOptions): Promise<any[]>;
+  /** `convos conversation messages` */
+  conversationMessages(conversationId: string, query: MessageQuery, envFile: string | null, call?: CallOptions): Promise<any[]>;
+  /** `convos conversation members` */
+  conversationMembers(conversationId: string, envFile: string | null, call?: CallOptions): Promise<any[]>;
+  /** `convos conversation profiles` */
+  conversationProfiles(conversationId: string, envFile: string | null, call?: CallOptions): Promise<any[]>;
+  /** `convos conversation download-attachment` */
+  downloadAttachment(conversationId: string, messageId: string, outputPath: string, envFile: string | null, call?: CallOptions): Promise<void>;
+  /** `convos conversation send-attachment` */
+  sendAttachment(conversationId: string, file: string, envFile: string | null, call?: CallOptions): Promise<void>;
+  /** `convos conversation invite` — create a new invite, replacing the current one */
+  createInvite(conversationId: string, envFile: string | null, call?: CallOptions): Promise<Invite>;
+  /** `convos conversation invite --revoke` — invalidate every outstanding invite */
+  revokeInvite(conversationId: string, envFile: string | null, call?: CallOptions): Promise<void>;
+  /** `convos conversation remove-members` */
+  removeMembers(conversationId: string, inboxIds: string[], envFile: string | null, call?: CallOptions): Promise<void>;
+  /** `convos conversation update-name` */
+  renameConversation(conversationId: string, name: string, envFile: string | null, call?: CallOptions): Promise<void>;
+  /** `convos conversation leave` */
+  leaveConversation(conversationId: string, envFile: string | null, call?: CallOptions): Promise<void>;
+}
+
+/**
+ * One-shot calls put their options first and the positional arguments after
+ * `--`, so a file path, name or ID that starts with a dash is never read as
+ * a flag.
+ */
+export function createCliTransport(): ConvosTransport {
+  return {
+    async isAvailable() {
+      try {
+        await runConvos(["--version"], { timeoutMs: 10_000 });
+        return true;
+      } catch (err) {
+        // Anything but a missing executable means the CLI is there
+        return !(err instanceof ConvosCliError && err.kind === "not_found");
+      }
+    },
+
+    serve(args, listeners) {
+      // Use globally installed convos CLI
+      const proc = spawn("convos", ["agent", "serve", ...args], {
+        stdio: ["pipe", "pipe", "pipe"],
+        env: { ...process.env },
+      });
+
+      // Read stdout line by line for ndjson events
+      const rl = createInterface({ input: proc.stdout!, terminal: false });
+      rl.on("line", (line: string) => {
+        let event: ServeEvent;
+        try {
+          event = JSON.parse(line);
+        } catch {
+          return;
+        }
+        listeners.onEvent(event);
+      });
+
+      if (proc.stderr) {
+        createInterface({ input: proc.stderr, terminal: false }).on("line", listeners.onStderr);
+      }
+
+      // A spawn failure (ENOENT when convos left PATH, EACCES) emits only
+      // `error`; other failures emit both, but the supervisor hears one exit
+      let exited = false;
+      const exit = (code: number | null) => {
+        if (exited) return;
+        exited = true;
+        rl.close();
+        listeners.onExit(code);
+      };
+      proc.on("error", (err) => {
+        listeners.onStderr(`convos agent serve failed: ${err.message}`);
+        exit(null);
+      });
+      proc.on("exit", exit);
+
+      return {
+        get writable() {
+          return Boolean(proc.stdin?.writable);
+        },
+        send(cmd) {
+          if (proc.stdin?.writable) {
+            proc.stdin.write(JSON.stringify(cmd) + "\n");
+          }
+        },
+        kill() {
+          try { proc.kill("SIGTERM"); } catch {}
+        },
+      };
+    },
+
+    async init({ env, output }, call) {
+      await runConvos(["init", "--env", env, "--output", output, "--force"], { timeoutMs: 15_000, signal: call?.signal });
+    },
+
+    async identityList(envFile, call) {
+      return await runConvosJson(["identity", "list", ...envFileArgs(envFile), "--json"], { timeoutMs: 10_000, signal: call?.signal }) ?? [];
+    },
+
+    async conversationMessages(conversationId, query, envFile, call) {
+      const args = [
+        "conversation", "messages", "--sync", "--json",
+        "--limit", String(query.limit), "--direction", query.direction,
+      ];
+      if (query.contentType) args.push("--content-type", query.contentType);
+      if (query.sentAfterNs) args.push("--sent-after", query.sentAfterNs);
+      if (query.sentBeforeNs) args.push("--sent-before", query.sentBeforeNs);
+      return await runConvosJson([...args, ...envFileArgs(envFile), "--", conversationId], { signal: call?.signal }) ?? [];
+    },
+
+    async conversationMembers(conversationId, envFile, call) {
+      const args = ["conversation", "members", "--json", ...envFileArgs(envFile), "--", conversationId];
+      return await runConvosJson(args, { timeoutMs: 15_000, signal: call?.signal }) ?? [];
+    },
+
+    async conversationProfiles(conversationId, envFile, call) {
+      const args = ["conversation", "profiles", "--json", ...envFileArgs(envFile), "--", conversationId];
+      return await runConvosJson(args, { timeoutMs: 15_000, signal: call?.signal }) ?? [];
+    },
+
+    async downloadAttachment(conversationId, messageId, outputPath, envFile, call) {
+      const args = [
+        "conversation", "download-attachment", "-o", outputPath, ...envFileArgs(envFile), "--", conversationId, messageId,
+      ];
+      await runConvos(args, { timeoutMs: 120_000, signal: call?.signal });
+    },
+
+    async sendAttachment(conversationId, file, envFile, call) {
+      const args = ["conversation", "send-attachment", ...envFileArgs(envFile), "--", conversationId, file];
+      await runConvos(args, { timeoutMs: 120_000, signal: call?.signal });
+    },
+
+    async createInvite(conversationId, envFile, call) {
+      const args = ["conversation", "invite", "--json", ...envFileArgs(envFile), "--", conversationId];
+      const invite = await runConvosJson(args, { signal: call?.signal });
+      const inviteUrl = invite?.inviteUrl ?? invite?.url;
+      if (typeof inviteUrl !== "string") {
+        throw new ConvosCliError("convos conversation invite returned no invite URL", "invalid_json", args);
+      }
+      return { inviteUrl, qrCodePath: invite.qrCodePath ?? null };
+    },
+
+    async revokeInvite(conversationId, envFile, call) {
+      await runConvos(["conversation", "invite", "--revoke", ...envFileArgs(envFile), "--", conversationId], { signal: call?.signal });
+    },
+
+    async removeMembers(conversationId, inboxIds, envFile, call) {
+      const args = ["conversation", "remove-members", ...envFileArgs(envFile), "--", conversationId, ...inboxIds];
+      await runConvos(args, { signal: call?.signal });
+    },
+
+    async renameConversation(conversationId, name, envFile, call) {
+      const args = ["conversation", "update-name", ...envFileArgs(envFile), "--", conversationId, name];
+      await runConvos(args, { signal: call?.signal });
+    },
+
+    async leaveConversation(conversationId, envFile, call) {
+      await runConvos(["conversation", "leave", ...envFileArgs(envFile), "--", conversationId], { signal: call?.signal });
+    },
+  };
+}
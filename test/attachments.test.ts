@@ -0,0 +1,88 @@
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  isTextFile,
+  parseRemoteAttachment,
+  pruneInbox,
+  readExcerpt,
+  safeFilename,
+} from "../extensions/convos/attachments.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "pi-convos-inbox-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseRemoteAttachment", () => {
+  it("reads the filename, size and URL", () => {
+    expect(parseRemoteAttachment("[remote attachment: a b.pdf (1.5 MB) https://x/y]")).toEqual({
+      filename: "a b.pdf",
+      size: 1572864,
+      url: "https://x/y",
+    });
+    expect(parseRemoteAttachment("[remote attachment: a.txt (unknown) https://x/y]")?.size).toBeNull();
+    expect(parseRemoteAttachment("hello")).toBeNull();
+  });
+});
+
+describe("safeFilename", () => {
+  it("drops directories and hidden-file prefixes", () => {
+    expect(safeFilename("../../etc/passwd")).toBe("passwd");
+    expect(safeFilename("..\\win\\evil.bat")).toBe("evil.bat");
+    expect(safeFilename(".bashrc")).toBe("_bashrc");
+    expect(safeFilename("a|b?.txt")).toBe("a_b_.txt");
+  });
+});
+
+describe("isTextFile and readExcerpt", () => {
+  it("detects text by extension or content", () => {
+    writeFileSync(join(dir, "notes"), "plain words");
+    writeFileSync(join(dir, "blob"), Buffer.from([1, 0, 2]));
+    expect(isTextFile(join(dir, "notes"))).toBe(true);
+    expect(isTextFile(join(dir, "blob"))).toBe(false);
+  });
+
+  it("cuts long files on line boundaries, from the end for logs", () => {
+    const lines = Array.from({ length: 100 }, (_, i) => `line ${i}`).join("\n");
+    writeFileSync(join(dir, "a.ts"), lines);
+    writeFileSync(join(dir, "a.log"), lines);
+
+    expect(readExcerpt(join(dir, "a.ts"), 30)).toEqual({ text: "line 0\nline 1\nline 2\nline 3", truncated: true, fromEnd: false });
+    expect(readExcerpt(join(dir, "a.log"), 30)).toEqual({ text: "line 97\nline 98\nline 99", truncated: true, fromEnd: true });
+    expect(readExcerpt(join(dir, "a.ts"), 10_000).truncated).toBe(false);
+  });
+});
+
+describe("pruneInbox", () => {
+  function addFile(name: string, size: number, ageMs: number, now: number) {
+    mkdirSync(join(dir, "conv"), { recursive: true });
+    const path = join(dir, "conv", name);
+    writeFileSync(path, "x".repeat(size));
+    const time = (now - ageMs) / 1000;
+    utimesSync(path, time, time);
+  }
+
+  it("removes expired files and the oldest ones over the size budget", () => {
+    const now = Date.now();
+    addFile("expired", 10, 10_000, now);
+    addFile("old", 60, 3_000, now);
+    addFile("middle", 30, 2_000, now);
+    addFile("new", 30, 1_000, now);
+
+    const removed = pruneInbox(dir, { maxAgeMs: 5_000, maxTotalBytes: 100 }, now);
+
+    expect(removed.map((p) => p.split("/").pop()).sort()).toEqual(["expired", "old"]);
+    expect(readdirSync(join(dir, "conv")).sort()).toEqual(["middle", "new"]);
+  });
+
+  it("ignores a missing inbox", () => {
+    expect(pruneInbox(join(dir, "nope"), { maxAgeMs: 1, maxTotalBytes: 1 })).toEqual([]);
+  });
+});
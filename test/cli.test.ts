@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { ConvosCliError, envFileArgs, runConvos, runConvosJson } from "../extensions/convos/cli.js";
+
+// Run node scripts in place of the convos executable
+const node = (script: string, ...args: string[]) => ["-e", script, "--", ...args];
+const options = { command: process.execPath };
+
+describe("runConvos", () => {
+  it("passes arguments verbatim, without a shell", async () => {
+    const tricky = "my file $(rm -rf ~) `id`; echo.txt";
+    const { stdout } = await runConvos(node("process.stdout.write(process.argv[1])", tricky), options);
+    expect(stdout).toBe(tricky);
+  });
+
+  it("parses JSON output and treats empty output as null", async () => {
+    expect(await runConvosJson(node("console.log(JSON.stringify([{ inboxId: 'a' }]))"), options)).toEqual([{ inboxId: "a" }]);
+    expect(await runConvosJson(node(""), options)).toBeNull();
+  });
+
+  it("rejects invalid JSON", async () => {
+    const err = await runConvosJson(node("console.log('not json')"), options).catch((e) => e);
+    expect(err).toBeInstanceOf(ConvosCliError);
+    expect(err.kind).toBe("invalid_json");
+  });
+
+  it("attaches stderr and the exit code to failures", async () => {
+    const err = await runConvos(node("console.error('warming up'); console.error('conversation not found'); process.exit(3)"), options)
+      .catch((e) => e);
+    expect(err).toBeInstanceOf(ConvosCliError);
+    expect(err).toMatchObject({ kind: "exit", exitCode: 3 });
+    expect(err.stderr).toBe("warming up\nconversation not found\n");
+    expect(err.message).toMatch(/exited with code 3: conversation not found$/);
+  });
+
+  it("kills commands that run past their timeout", async () => {
+    const err = await runConvos(node("setTimeout(() => {}, 10_000)"), { ...options, timeoutMs: 100 }).catch((e) => e);
+    expect(err).toMatchObject({ kind: "timeout" });
+  });
+
+  it("can be cancelled", async () => {
+    const controller = new AbortController();
+    const run = runConvos(node("setTimeout(() => {}, 10_000)"), { ...options, signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+    expect(await run.catch((e) => e)).toMatchObject({ kind: "aborted" });
+
+    await expect(runConvos(node(""), { ...options, signal: AbortSignal.abort() })).rejects.toMatchObject({ kind: "aborted" });
+  });
+
+  it("reports a missing executable", async () => {
+    await expect(runConvos(["--version"], { command: "convos-missing-for-tests" })).rejects.toMatchObject({ kind: "not_found" });
+  });
+});
+
+describe("envFileArgs", () => {
+  it("adds --env-file only when one is configured", () => {
+    expect(envFileArgs("/tmp/my env/.env")).toEqual(["--env-file", "/tmp/my env/.env"]);
+    expect(envFileArgs(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, loadConvosConfig, parseStartArgs, withStartArgs } from "../extensions/convos/config.js";
+
+let dir: string;
+let agentDir: string;
+let projectDir: string;
+
+function writeJson(path: string, value: unknown) {
+  mkdirSync(join(path, ".."), { recursive: true });
+  writeFileSync(path, typeof value === "string" ? value : JSON.stringify(value));
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "pi-convos-config-"));
+  agentDir = join(dir, "agent");
+  projectDir = join(dir, "project");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("loadConvosConfig", () => {
+  it("uses the defaults when nothing is configured", () => {
+    const config = loadConvosConfig({ agentDir, projectDir, env: {} });
+    expect(config.settings).toEqual(DEFAULT_SETTINGS);
+    expect(config.sources).toEqual({});
+    expect(config.files).toEqual([]);
+  });
+
+  it("layers user file, project file and env vars", () => {
+    writeJson(join(agentDir, "convos.config.json"), { env: "production", profileName: "User", routing: { debounceMs: 500 } });
+    writeJson(join(projectDir, ".pi", "convos.config.json"), { profileName: "Project", routing: { turnsPerMinute: 5 } });
+
+    const config = loadConvosConfig({
+      agentDir,
+      projectDir,
+      env: { CONVOS_TURNS_PER_MINUTE: "9", CONVOS_APPROVAL_TOOLS: "" },
+    });
+
+    expect(config.settings).toMatchObject({
+      env: "production",
+      profileName: "Project",
+      routing: { debounceMs: 500, turnsPerMinute: 9, memberTurnsPerMinute: 6 },
+      approval: { tools: [] },
+    });
+    expect(config.sources).toEqual({
+      env: "user file",
+      profileName: "project file",
+      "routing.debounceMs": "user file",
+      "routing.turnsPerMinute": "CONVOS_TURNS_PER_MINUTE",
+      "approval.tools": "CONVOS_APPROVAL_TOOLS",
+    });
+  });
+
+  it("skips invalid files and env vars with a warning", () => {
+    writeJson(join(agentDir, "convos.config.json"), "{ not json");
+    writeJson(join(projectDir, ".pi", "convos.config.json"), { name: "ok", colour: "blue" });
+
+    const config = loadConvosConfig({ agentDir, projectDir, env: { CONVOS_PROGRESS: "loud", CONVOS_NAME: "" } });
+
+    expect(config.settings.name).toBeNull();
+    expect(config.settings.progress.level).toBe("off");
+    expect(config.warnings).toHaveLength(3);
+    expect(config.warnings[0]).toMatch(/is not valid JSON/);
+    expect(config.warnings[1]).toMatch(/was ignored: \/colour/);
+    expect(config.warnings[2]).toMatch(/^CONVOS_PROGRESS=loud was ignored/);
+  });
+});
+
+describe("parseStartArgs", () => {
+  it("separates known flags, the conversation ID and passthrough flags", () => {
+    expect(parseStartArgs('abc123 --name "My Bot" --profile-name=Pi --permissions admin-only --foo bar -x')).toEqual({
+      conversationId: "abc123",
+      overrides: { name: "My Bot", profileName: "Pi", permissions: "admin-only" },
+      passthrough: ["--foo", "bar", "-x"],
+    });
+  });
+
+  it("rejects missing and invalid values", () => {
+    expect(() => parseStartArgs("--name")).toThrow("--name needs a value");
+    expect(() => parseStartArgs("--name --profile-name x")).toThrow("--name needs a value");
+    expect(() => parseStartArgs("--permissions everyone")).toThrow(/Invalid --permissions/);
+    expect(() => parseStartArgs("--env-file /tmp/other.env")).toThrow(/--env-file cannot be set per conversation/);
+  });
+
+  it("overrides every other source", () => {
+    const config = loadConvosConfig({ agentDir, projectDir, env: { CONVOS_NAME: "Env" } });
+    const effective = withStartArgs(config, parseStartArgs("--name Args"));
+    expect(effective.settings.name).toBe("Args");
+    expect(effective.sources.name).toBe("/convos-start");
+    expect(config.settings.name).toBe("Env");
+  });
+});
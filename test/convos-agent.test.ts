@@ -0,0 +1,1492 @@
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import convosExtension from "../extensions/convos-agent.js";
+import { FakeConvosTransport } from "../extensions/convos/fake-transport.js";
+import { createStubContext, createStubPi, type StubPi } from "./stub-pi.js";
+
+let dir: string;
+let originalCwd: string;
+let statePath: string;
+let pi: StubPi;
+let transport: FakeConvosTransport;
+
+/** Let the extension finish its async handling of emitted events. */
+async function flush() {
+  if (!vi.isFakeTimers()) return new Promise((resolve) => setTimeout(resolve, 0));
+  for (let i = 0; i < 50; i++) await Promise.resolve();
+}
+
+function readState() {
+  return JSON.parse(readFileSync(statePath, "utf-8"));
+}
+
+/** Load the extension in headless mode and fire session_start. */
+async function startHeadless() {
+  convosExtension(pi.api, transport);
+  await pi.emit("session_start", { reason: "startup" }, createStubContext({ hasUI: false }));
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "pi-convos-"));
+  // Outside a git worktree, so state and downloads stay in the temp dir
+  originalCwd = process.cwd();
+  process.chdir(dir);
+  const envFile = join(dir, ".env");
+  writeFileSync(envFile, "");
+  statePath = join(dir, "convos-session.json");
+  vi.stubEnv("CONVOS_ENV_FILE", envFile);
+  // Keep the real user-level convos.config.json out of the tests
+  vi.stubEnv("PI_CODING_AGENT_DIR", join(dir, "agent"));
+  vi.stubEnv("CONVOS_NAME", "Test Chat");
+  vi.stubEnv("CONVOS_APPROVAL_TOOLS", "");
+  // Deliver each message on its own unless a test is about batching
+  vi.stubEnv("CONVOS_DEBOUNCE_MS", "0");
+  // Write the state file right away so tests can read it
+  vi.stubEnv("CONVOS_STATE_WRITE_DELAY_MS", "0");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  pi = createStubPi();
+  transport = new FakeConvosTransport();
+});
+
+afterEach(async () => {
+  await pi.emit("session_shutdown");
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  process.chdir(originalCwd);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("headless start", () => {
+  it("creates a new conversation and persists it on ready", async () => {
+    await startHeadless();
+
+    const serve = transport.lastServe;
+    expect(serve.args).toEqual(["--env-file", join(dir, ".env"), "--name", "Test Chat", "--profile-name", "Pi"]);
+
+    serve.ready("conv-1");
+    await flush();
+    expect(readState().conversations).toMatchObject([
+      { conversationId: "conv-1", inviteUrl: "https://convos.org/join/conv-1" },
+    ]);
+  });
+
+  it("resumes every persisted conversation", async () => {
+    writeFileSync(statePath, JSON.stringify({
+      conversations: [{ conversationId: "conv-a" }, { conversationId: "conv-b" }],
+    }));
+    await startHeadless();
+
+    expect(transport.serves.map((s) => s.args)).toEqual([
+      ["conv-a", "--env-file", join(dir, ".env")],
+      ["conv-b", "--env-file", join(dir, ".env")],
+    ]);
+  });
+
+  it("migrates a single-conversation state file", async () => {
+    writeFileSync(statePath, JSON.stringify({ conversationId: "legacy", lastSeenTimestampNs: "5" }));
+    await startHeadless();
+
+    expect(transport.lastServe.args[0]).toBe("legacy");
+    transport.lastServe.ready("legacy");
+    await flush();
+    expect(readState().conversations[0]).toMatchObject({ conversationId: "legacy", lastSeenTimestampNs: "5" });
+  });
+
+  it("moves stopped conversations to the history and resumes them by name", async () => {
+    await startHeadless();
+    expect(transport.lastServe.args).toContain("Test Chat");
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    await pi.runCommand("convos-stop", "conv-1");
+    expect(readState()).toMatchObject({ version: 4, conversations: [], history: [{ conversationId: "conv-1", name: "Test Chat" }] });
+
+    await pi.runCommand("convos-history");
+    expect(pi.convosContents().at(-1)).toMatch(/^Stopped:\n  Test Chat — conv-1 — stopped /);
+
+    await pi.runCommand("convos-start", '"test chat"');
+    expect(transport.lastServe.args[0]).toBe("conv-1");
+    transport.lastServe.ready("conv-1");
+    await flush();
+    expect(readState()).toMatchObject({ conversations: [{ conversationId: "conv-1", name: "Test Chat" }], history: [] });
+  });
+
+  it("prints a text QR code when stdout is not a terminal, unless a renderer is set", async () => {
+    const printed = () => vi.mocked(console.log).mock.calls.map(([line]) => String(line));
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+    expect(printed().some((line) => line.startsWith("█".repeat(10)))).toBe(true);
+
+    vi.stubEnv("CONVOS_QR_RENDERER", "kitty");
+    pi = createStubPi();
+    await startHeadless();
+    transport.lastServe.ready("conv-2");
+    await flush();
+    expect(printed().at(-1)).toMatch(/^\x1b_Ga=T,f=24,/);
+  });
+
+  it("does nothing when the CLI is missing", async () => {
+    transport.available = false;
+    await startHeadless();
+    expect(transport.serves).toHaveLength(0);
+  });
+});
+
+describe("settings", () => {
+  function writeProjectConfig(config: object) {
+    mkdirSync(join(dir, ".pi"), { recursive: true });
+    writeFileSync(join(dir, ".pi", "convos.config.json"), JSON.stringify(config));
+  }
+
+  it("reads the project file and lets env vars override it", async () => {
+    writeProjectConfig({ name: "From File", profileName: "Bot", permissions: "admin-only" });
+    await startHeadless();
+
+    expect(transport.lastServe.args).toEqual([
+      "--env-file", join(dir, ".env"),
+      "--name", "Test Chat",
+      "--profile-name", "Bot",
+      "--permissions", "admin-only",
+    ]);
+  });
+
+  it("ignores an invalid file and reports why", async () => {
+    writeProjectConfig({ profileName: "Bot", routing: { debounceMs: "soon" } });
+    await startHeadless();
+
+    expect(transport.lastServe.args).toContain("Pi");
+    expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/convos\.config\.json was ignored: \/routing\/debounceMs/));
+  });
+
+  it("does not auto-start interactive sessions unless configured", async () => {
+    convosExtension(pi.api, transport);
+    await pi.emit("session_start", { reason: "startup" }, createStubContext({ hasUI: true }));
+    expect(transport.serves).toHaveLength(0);
+
+    writeProjectConfig({ autoStart: true });
+    await pi.emit("session_start", { reason: "startup" }, createStubContext({ hasUI: true }));
+    expect(transport.serves).toHaveLength(1);
+  });
+
+  it("treats quoted /convos-start values as flag values, not conversation IDs", async () => {
+    convosExtension(pi.api, transport);
+    await pi.emit("session_start", { reason: "startup" }, createStubContext({ hasUI: true }));
+
+    await pi.runCommand("convos-start", '--name "Code Review Bot" --profile-name "🔍 Reviewer" --verbose');
+
+    expect(transport.lastServe.args).toEqual([
+      "--env-file", join(dir, ".env"),
+      "--name", "Code Review Bot",
+      "--profile-name", "🔍 Reviewer",
+      "--verbose",
+    ]);
+  });
+
+  it("shows effective settings and their sources", async () => {
+    writeProjectConfig({ profileName: "Bot" });
+    await startHeadless();
+
+    await pi.runCommand("convos-config");
+
+    const content = pi.convosContents().at(-1)!;
+    expect(content).toContain('  profileName = "Bot"  (project file)');
+    expect(content).toContain('  name = "Test Chat"  (CONVOS_NAME)');
+    expect(content).toContain('  env = "dev"  (default)');
+  });
+});
+
+describe("inbound routing", () => {
+  it("steers a turn for each message, naming sender and conversation", async () => {
+    transport.members.set("conv-1", [{ inboxId: "alice-inbox" }]);
+    transport.profiles.set("conv-1", [{ inboxId: "alice-inbox", name: "Alice" }]);
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+
+    const sentAtNs = String(BigInt(Date.now() + 1000) * 1_000_000n);
+    transport.lastServe.message({ id: "m1", senderInboxId: "alice-inbox", content: "hello", sentAtNs });
+    await flush();
+
+    const last = pi.messages.at(-1)!;
+    expect(last.message.content).toBe("[Convos message from Alice in conversation conv-1] hello");
+    expect(last.message.details).toMatchObject({ type: "message", conversationId: "conv-1", senderName: "Alice" });
+    expect(last.options).toEqual({ triggerTurn: true, deliverAs: "steer" });
+    expect(readState().conversations[0].lastSeenTimestampNs).toBe(sentAtNs);
+  });
+
+  it("adds the conversation to the system prompt of Convos turns", async () => {
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    transport.lastServe.message({ id: "m1", senderInboxId: "alice-inbox", content: "hi" });
+    await flush();
+
+    const [result] = await pi.emit("before_agent_start", { systemPrompt: "BASE" });
+    expect(result.systemPrompt).toContain("BASE");
+    expect(result.systemPrompt).toContain("conversation conv-1");
+  });
+
+  it("does not forward messages from observers", async () => {
+    writeFileSync(statePath, JSON.stringify({
+      conversations: [{ conversationId: "conv-1", access: { roles: { "owner-inbox": "owner", "watcher": "observer" } } }],
+    }));
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+    const before = pi.messages.length;
+
+    transport.lastServe.message({ id: "m1", senderInboxId: "watcher", content: "do something" });
+    transport.lastServe.message({ id: "m2", senderInboxId: "stranger", content: "me too" });
+    await flush();
+
+    expect(pi.messages.length).toBe(before);
+    expect(pi.entries.map((e) => e.data.id)).toEqual(["m1", "m2"]);
+  });
+
+  it("announces joins with the member's profile name", async () => {
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+    transport.members.set("conv-1", [{ inboxId: "bob-inbox" }]);
+    transport.profiles.set("conv-1", [{ inboxId: "bob-inbox", name: "Bob" }]);
+
+    transport.lastServe.memberJoined("bob-inbox");
+    await flush();
+
+    expect(pi.convosContents().at(-1)).toBe("[Convos] New member joined conversation conv-1: Bob (bob-inbox)");
+    expect(readState().conversations[0].members).toEqual([{ inboxId: "bob-inbox", name: "Bob" }]);
+  });
+});
+
+describe("reactions", () => {
+  async function startWithOwnMessage() {
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+    await pi.runTool("convos_send", { text: "Plan: rename the table, then backfill." });
+  }
+
+  const react = (id: string, emoji: string, target: string, action = "added") =>
+    transport.lastServe.message({
+      id,
+      senderInboxId: "alice-inbox",
+      contentType: "reaction",
+      content: { content: emoji, reference: target, action },
+    });
+
+  it("turns a trigger reaction to our message into a turn quoting it", async () => {
+    await startWithOwnMessage();
+    react("r1", "👍🏽", "sent-1");
+    await flush();
+
+    const last = pi.messages.at(-1)!;
+    expect(last.message.content).toBe(
+      '[Convos reaction from alice-inbox in conversation conv-1] reacted 👍🏽 to your message [sent-1]: "Plan: rename the table, then backfill."',
+    );
+    expect(last.message.details).toMatchObject({ type: "reaction", emoji: "👍🏽", targetId: "sent-1", action: "added" });
+    expect(last.options).toEqual({ triggerTurn: true, deliverAs: "steer" });
+  });
+
+  it("keeps other reactions and removals as context for the next turn", async () => {
+    vi.stubEnv("CONVOS_REACTION_TRIGGER_EMOJIS", "❌");
+    await startWithOwnMessage();
+    react("r1", "👍", "sent-1");
+    react("r2", "❌", "sent-1", "removed");
+    await flush();
+
+    const [thumbs, removal] = pi.messages.slice(-2);
+    expect(thumbs.message.details).toMatchObject({ type: "reaction", emoji: "👍" });
+    expect(removal.message.content).toContain("removed their ❌ reaction from your message [sent-1]");
+    expect(thumbs.options).toEqual({ triggerTurn: false, deliverAs: "nextTurn" });
+    expect(removal.options).toEqual({ triggerTurn: false, deliverAs: "nextTurn" });
+  });
+
+  it("only records reactions to other members' messages", async () => {
+    await startWithOwnMessage();
+    transport.lastServe.message({ id: "m1", senderInboxId: "bob-inbox", content: "lunch?" });
+    await flush();
+    const before = pi.messages.length;
+
+    react("r1", "👍", "m1");
+    await flush();
+
+    expect(pi.messages.length).toBe(before);
+    expect(pi.entries.at(-1)).toMatchObject({ customType: "convos-reaction", data: { emoji: "👍", targetId: "m1" } });
+  });
+});
+
+describe("reply threads", () => {
+  it("quotes our own message when someone replies to it", async () => {
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+    await pi.runTool("convos_send", { text: "Option A: patch it.\nOption B: migrate the DB." });
+
+    transport.lastServe.message({ id: "m2", senderInboxId: "alice-inbox", content: "B please", replyTo: "sent-1" });
+    await flush();
+
+    const last = pi.messages.at(-1)!;
+    expect(last.message.content).toBe(
+      '[Convos message from alice-inbox in conversation conv-1] ↩ Replying to you [sent-1]: "Option A: patch it. Option B: migrate the DB."\nB please',
+    );
+    expect(last.message.details.quoted).toMatchObject({ id: "sent-1", fromSelf: true });
+  });
+
+  it("remembers messages across restarts and says when the parent is unknown", async () => {
+    transport.members.set("conv-1", [{ inboxId: "alice-inbox" }]);
+    transport.profiles.set("conv-1", [{ inboxId: "alice-inbox", name: "Alice" }]);
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    transport.lastServe.message({ id: "m1", senderInboxId: "alice-inbox", content: "deploy failed" });
+    await flush();
+    await pi.emit("session_shutdown");
+
+    pi = createStubPi();
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    transport.lastServe.message({ id: "m2", senderInboxId: "alice-inbox", content: "any news?", replyTo: "m1" });
+    transport.lastServe.message({ id: "m3", senderInboxId: "alice-inbox", content: "and this?", replyTo: "ancient" });
+    await flush();
+
+    const contents = pi.messages.slice(-2).map((m) => m.message.content);
+    expect(contents[0]).toContain('↩ Replying to Alice [m1]: "deploy failed"\nany news?');
+    expect(contents[1]).toContain("↩ Replying to message [ancient], which is older than the recent messages");
+  });
+
+  it("shows what a sent reply answers", async () => {
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    transport.lastServe.message({ id: "m1", senderInboxId: "alice-inbox", content: "is staging up?" });
+    await flush();
+
+    const result = await pi.runTool("convos_send", { text: "yes", replyTo: "m1" });
+
+    expect(result.content[0].text).toContain('(reply to alice-inbox [m1]: "is staging up?")');
+    expect(result.details.repliedTo).toMatchObject({ id: "m1", text: "is staging up?" });
+  });
+});
+
+describe("conversation management", () => {
+  async function startInteractive() {
+    convosExtension(pi.api, transport);
+    await pi.emit("session_start", { reason: "startup" }, createStubContext({ hasUI: true }));
+    await pi.runCommand("convos-start");
+    transport.lastServe.ready("conv-1");
+    await flush();
+  }
+
+  it("starts a new conversation even when saved ones exist", async () => {
+    writeFileSync(statePath, JSON.stringify({ conversations: [{ conversationId: "old" }] }));
+    convosExtension(pi.api, transport);
+    await pi.emit("session_start", { reason: "startup" }, createStubContext({ hasUI: true }));
+
+    await pi.runCommand("convos-new", '--name "Fresh"');
+
+    expect(transport.serves).toHaveLength(1);
+    expect(transport.lastServe.args).toEqual(["--env-file", join(dir, ".env"), "--name", "Fresh", "--profile-name", "Pi"]);
+  });
+
+  it("rotates and revokes the invite", async () => {
+    await startInteractive();
+
+    await pi.runCommand("convos-invite", "rotate");
+    const shown = pi.messages.at(-1)!.message;
+    expect(shown.details).toMatchObject({ type: "invite", conversationId: "conv-1", inviteUrl: "https://convos.org/join/conv-1?v=1" });
+    expect(readState().conversations[0].inviteUrl).toBe("https://convos.org/join/conv-1?v=1");
+
+    await pi.runCommand("convos-invite", "revoke conv-1");
+    expect(transport.calls.at(-1)).toEqual({ method: "revokeInvite", args: ["conv-1", join(dir, ".env")] });
+    expect(readState().conversations[0].inviteUrl).toBeNull();
+  });
+
+  it("lists and removes members after confirmation", async () => {
+    transport.members.set("conv-1", [{ inboxId: "self-inbox" }, { inboxId: "bob-inbox" }]);
+    transport.profiles.set("conv-1", [{ inboxId: "bob-inbox", name: "Bob Smith" }]);
+    await startInteractive();
+
+    await pi.runCommand("convos-members");
+    expect(pi.convosContents().at(-1)).toBe(
+      "2 member(s) in conv-1:\n- (no profile name) — self-inbox (you)\n- Bob Smith — bob-inbox",
+    );
+
+    const declined = createStubContext({ hasUI: true });
+    declined.ui.confirm = vi.fn(async () => false);
+    await pi.runCommand("convos-members", "remove bob smith", declined);
+    expect(transport.calls.some((c) => c.method === "removeMembers")).toBe(false);
+
+    await pi.runCommand("convos-members", "remove bob smith");
+    expect(transport.calls.at(-1)).toEqual({ method: "removeMembers", args: ["conv-1", ["bob-inbox"], join(dir, ".env")] });
+    expect(readState().conversations[0].members).toEqual([{ inboxId: "self-inbox", name: null }]);
+  });
+
+  it("renames the conversation and remembers the new name", async () => {
+    await startInteractive();
+
+    await pi.runCommand("convos-rename", "Release Train conv-1");
+
+    expect(transport.names.get("conv-1")).toBe("Release Train");
+    expect(readState().conversations[0].name).toBe("Release Train");
+  });
+
+  it("leaves the conversation and forgets it", async () => {
+    await startInteractive();
+    const serve = transport.lastServe;
+
+    await pi.runCommand("convos-leave");
+
+    expect(transport.calls.at(-1)).toEqual({ method: "leaveConversation", args: ["conv-1", join(dir, ".env")] });
+    expect(serve.commands.at(-1)).toEqual({ type: "stop" });
+    expect(readState()).toMatchObject({ conversations: [], history: [] });
+  });
+});
+
+describe("export", () => {
+  const ns = (iso: string) => String(BigInt(Date.parse(iso)) * 1_000_000n);
+
+  beforeEach(() => {
+    transport.members.set("conv-1", [{ inboxId: "alice-inbox" }, { inboxId: "self-inbox" }]);
+    transport.profiles.set("conv-1", [{ inboxId: "alice-inbox", name: "Alice" }, { inboxId: "self-inbox", name: "Pi" }]);
+    transport.messages.set("conv-1", [
+      { id: "old", senderInboxId: "alice-inbox", content: { text: "last week" }, sentAtNs: ns("2026-10-12T10:00:00Z") },
+      { id: "m1", senderInboxId: "alice-inbox", content: { text: "tests fail on main" }, sentAtNs: ns("2026-10-19T09:00:00Z") },
+      { id: "m2", senderInboxId: "self-inbox", contentType: { typeId: "reply" }, content: { reference: "m1", content: { text: "fixed in #42" } }, sentAtNs: ns("2026-10-19T09:05:00Z") },
+      { id: "r1", senderInboxId: "alice-inbox", contentType: { typeId: "reaction" }, content: { content: "🎉", reference: "m2", action: "added" }, sentAtNs: ns("2026-10-19T09:06:00Z") },
+      { id: "f1", senderInboxId: "alice-inbox", contentType: { typeId: "remoteStaticAttachment" }, content: { filename: "ci.log", contentLength: 4, url: "https://files/ci" }, sentAtNs: ns("2026-10-19T09:07:00Z") },
+    ]);
+    transport.attachments.set("f1", "boom");
+  });
+
+  it("writes a Markdown transcript with attachments beside it, from headless sessions too", async () => {
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    await pi.runCommand("convos-export", "--since 2026-10-19T00:00:00Z", createStubContext({ hasUI: false }));
+
+    const { details } = pi.messages.at(-1)!.message;
+    expect(details).toMatchObject({ type: "export", format: "markdown", messages: 4, attachments: 1, failed: [] });
+    expect(details.path.startsWith(join(dir, "convos-exports", "Test-Chat-"))).toBe(true);
+    const markdown = readFileSync(details.path, "utf-8");
+    expect(markdown).toContain("**09:05Z Pi** `m2`\n> ↩ Alice `m1`: tests fail on main\nfixed in #42");
+    expect(markdown).toContain("**09:06Z Alice** `r1` reacted 🎉 to Pi's message `m2`");
+    expect(markdown).not.toContain("last week");
+    const link = markdown.match(/📎 \[ci\.log\]\((.+)\)/)![1];
+    expect(readFileSync(join(dirname(details.path), link), "utf-8")).toBe("boom");
+  });
+
+  it("writes JSON lines for a date range without attachments", async () => {
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    await pi.runCommand("convos-export", `--format jsonl --until 2026-10-12 --out ${join(dir, "out")} --no-attachments`);
+
+    const { details } = pi.messages.at(-1)!.message;
+    const lines = readFileSync(details.path, "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+    expect(details.path.startsWith(join(dir, "out"))).toBe(true);
+    expect(lines.map((line) => line.type)).toEqual(["conversation", "message"]);
+    expect(lines[1]).toMatchObject({ id: "old", sender: "Alice", text: "last week" });
+    expect(readdirSync(join(dir, "out"))).toEqual([basename(details.path)]);
+  });
+
+  it("rejects unknown formats and dates", async () => {
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    await pi.runCommand("convos-export", "--since someday");
+    await pi.runCommand("convos-export", "--format pdf");
+
+    const usage = vi.mocked(console.error).mock.calls.filter(([line]) => String(line).startsWith("⚠ Usage: /convos-export"));
+    expect(usage).toHaveLength(2);
+    expect(pi.messages.some((m) => m.message.details?.type === "export")).toBe(false);
+  });
+});
+
+describe("batching and rate limits", () => {
+  async function startBatching(env: Record<string, string> = {}) {
+    vi.useFakeTimers();
+    vi.stubEnv("CONVOS_DEBOUNCE_MS", "1000");
+    for (const [key, value] of Object.entries(env)) vi.stubEnv(key, value);
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+    return transport.lastServe;
+  }
+
+  const turns = () => pi.messages.filter((m) => ["message", "messages"].includes(m.message.details?.type));
+
+  it("merges messages inside the debounce window into one turn", async () => {
+    const serve = await startBatching();
+    serve.message({ id: "m1", senderInboxId: "alice-inbox", content: "one" });
+    await flush();
+    await vi.advanceTimersByTimeAsync(500);
+    serve.message({ id: "m2", senderInboxId: "bob-inbox", content: "two\nlines" });
+    await flush();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(turns()).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(turns()).toHaveLength(1);
+    const { message, options } = turns()[0];
+    expect(message.content).toBe("[2 Convos messages in conversation conv-1]\n[m1] alice-inbox: one\n[m2] bob-inbox: two\nlines");
+    expect(message.details.messages.map((m: any) => [m.id, m.senderInboxId])).toEqual([
+      ["m1", "alice-inbox"],
+      ["m2", "bob-inbox"],
+    ]);
+    expect(options).toEqual({ triggerTurn: true, deliverAs: "steer" });
+  });
+
+  it("queues a member over their limit and shows the queue in /convos-status", async () => {
+    const serve = await startBatching({ CONVOS_MEMBER_TURNS_PER_MINUTE: "2" });
+    for (const id of ["m1", "m2", "m3"]) {
+      serve.message({ id, senderInboxId: "alice-inbox", content: id });
+      await flush();
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+    serve.message({ id: "b1", senderInboxId: "bob-inbox", content: "b1" });
+    await flush();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(turns().map((t) => t.message.details.id)).toEqual(["m1", "m2", "b1"]);
+
+    await pi.runCommand("convos-status");
+    expect(pi.messages.at(-1)!.message.details.conversations[0]).toMatchObject({ queued: 1 });
+    expect(pi.convosContents().at(-1)).toContain("1 message(s) queued");
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(turns().map((t) => t.message.details.id)).toEqual(["m1", "m2", "b1", "m3"]);
+  });
+
+  it("holds everything at the global limit", async () => {
+    const serve = await startBatching({ CONVOS_TURNS_PER_MINUTE: "1" });
+    serve.message({ id: "m1", senderInboxId: "alice-inbox", content: "first" });
+    await flush();
+    await vi.advanceTimersByTimeAsync(1000);
+    serve.message({ id: "m2", senderInboxId: "bob-inbox", content: "second" });
+    serve.message({ id: "m3", senderInboxId: "carol-inbox", content: "third" });
+    await flush();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(turns()).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(turns()).toHaveLength(2);
+    expect(turns()[1].message.details.messages.map((m: any) => m.id)).toEqual(["m2", "m3"]);
+  });
+});
+
+describe("chat commands", () => {
+  let ctx: any;
+
+  async function start() {
+    ctx = createStubContext({ hasUI: false, model: { provider: "anthropic", id: "test-model" } });
+    convosExtension(pi.api, transport);
+    await pi.emit("session_start", { reason: "startup" }, ctx);
+    transport.lastServe.ready("conv-1");
+    await flush();
+    return transport.lastServe;
+  }
+
+  const replies = (serve: any) => serve.commands.filter((c: any) => c.type === "send").map((c: any) => c.text);
+
+  it("answers /status in the chat without a turn", async () => {
+    const serve = await start();
+    await pi.emit("agent_start");
+    await pi.emit("tool_execution_start", { toolCallId: "t1", toolName: "bash", args: {} });
+    const before = pi.messages.length;
+
+    serve.message({ id: "c1", senderInboxId: "alice-inbox", content: "/status" });
+    await flush();
+
+    const sent = serve.commands.at(-1);
+    expect(sent).toMatchObject({ type: "send", replyTo: "c1" });
+    expect(sent.text).toMatch(/^Working for \d+s, running bash\.\nModel: anthropic\/test-model\nUp: /);
+    expect(pi.messages.slice(before).map((m) => m.options)).toEqual([{ triggerTurn: false }]);
+  });
+
+  it("stops the running turn", async () => {
+    const serve = await start();
+    await pi.emit("agent_start");
+
+    serve.message({ id: "c1", senderInboxId: "alice-inbox", content: "/stop" });
+    await flush();
+
+    expect(ctx.abort).toHaveBeenCalled();
+    expect(replies(serve)).toEqual(["Stopped the running turn."]);
+  });
+
+  it("holds messages while paused and passes them on when resumed", async () => {
+    const serve = await start();
+    serve.message({ id: "c1", senderInboxId: "alice-inbox", content: "/pause" });
+    serve.message({ id: "m1", senderInboxId: "alice-inbox", content: "are you there?" });
+    await flush();
+    expect(pi.convosContents().some((c) => c.includes("are you there?"))).toBe(false);
+
+    serve.message({ id: "c2", senderInboxId: "alice-inbox", content: "/resume" });
+    await flush();
+
+    expect(pi.convosContents()).toContain("[Convos message from alice-inbox in conversation conv-1] are you there?");
+    expect(replies(serve)).toEqual([
+      "Paused. Messages will be held until /resume.",
+      "Resumed, passing on 1 held message(s).",
+    ]);
+  });
+
+  it("summarizes the last run", async () => {
+    const serve = await start();
+    await pi.emit("agent_start");
+    for (const toolName of ["read", "bash", "bash"]) {
+      await pi.emit("tool_execution_start", { toolCallId: toolName, toolName, args: {} });
+    }
+    await pi.emit("turn_end", { message: { role: "assistant", content: [{ type: "text", text: "All tests pass." }] } });
+    await pi.emit("agent_end", { messages: [] });
+
+    serve.message({ id: "c1", senderInboxId: "alice-inbox", content: "/summary" });
+    await flush();
+
+    expect(replies(serve)[0]).toMatch(/^Last run took 0s, finished 0s ago\.\nTools: read, bash ×2\.\nLatest reply: All tests pass\.$/);
+  });
+
+  it("keeps owner-only commands from collaborators and passes unknown ones to the LLM", async () => {
+    writeFileSync(statePath, JSON.stringify({
+      conversations: [{ conversationId: "conv-1", access: { roles: { "owner-inbox": "owner", "bob-inbox": "collaborator" } } }],
+    }));
+    const serve = await start();
+
+    serve.message({ id: "c1", senderInboxId: "bob-inbox", content: "/pause" });
+    serve.message({ id: "m1", senderInboxId: "bob-inbox", content: "/deploy now" });
+    await flush();
+
+    expect(replies(serve)).toEqual(["/pause is only available to owners."]);
+    expect(pi.convosContents().at(-1)).toBe("[Convos message from bob-inbox in conversation conv-1] /deploy now");
+  });
+});
+
+describe("progress updates", () => {
+  async function startWithProgress(level: string) {
+    vi.useFakeTimers();
+    vi.stubEnv("CONVOS_PROGRESS", level);
+    await startHeadless();
+    const serve = transport.lastServe;
+    serve.ready("conv-1");
+    serve.message({ id: "m1", senderInboxId: "alice-inbox", content: "fix the build" });
+    await flush();
+    return serve;
+  }
+
+  const sent = (serve: any) => serve.commands.filter((c: any) => c.type === "send").map((c: any) => c.text);
+  const tool = (toolName: string, args: any = {}) =>
+    pi.emit("tool_execution_start", { toolCallId: toolName, toolName, args });
+
+  it("is off by default", async () => {
+    const serve = await startWithProgress("");
+    await pi.emit("agent_start");
+    await pi.emit("agent_end", { messages: [] });
+    expect(sent(serve)).toEqual([]);
+  });
+
+  it("acknowledges the turn and reports when it ends without a reply", async () => {
+    const serve = await startWithProgress("basic");
+    await pi.emit("agent_start");
+    await tool("bash");
+    await vi.advanceTimersByTimeAsync(90_000);
+    await pi.emit("turn_end", { message: { role: "assistant", content: [{ type: "text", text: "Fixed the import." }] } });
+    await pi.emit("agent_end", { messages: [] });
+
+    expect(sent(serve)).toEqual([
+      "Working on it…",
+      "Finished after 1m 30s without a reply. Last output: Fixed the import.",
+    ]);
+  });
+
+  it("throttles tool updates and stays quiet after a convos_send", async () => {
+    const serve = await startWithProgress("tools");
+    await pi.emit("agent_start");
+    await tool("read");
+    await tool("bash");
+    expect(sent(serve)).toEqual(["Working on it…"]);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    await tool("edit");
+    expect(sent(serve)).toEqual(["Working on it…", "Still working (30s): read, bash"]);
+
+    await pi.emit("tool_execution_end", { toolCallId: "s", toolName: "convos_send", result: {}, isError: false });
+    await pi.emit("agent_end", { messages: [] });
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(sent(serve)).toHaveLength(2);
+  });
+
+  it("is set per conversation and remembered", async () => {
+    const serve = await startWithProgress("off");
+    await pi.runCommand("convos-progress", "verbose conv-1");
+    expect(readState().conversations[0].progress).toBe("verbose");
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    await pi.emit("agent_start");
+    await tool("bash", { command: "npm run build" });
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(sent(serve)).toEqual(["Working on it…", "Still working (30s): bash: $ npm run build"]);
+  });
+
+  it("ignores turns started from the terminal", async () => {
+    const serve = await startWithProgress("basic");
+    await pi.emit("input", { source: "interactive", text: "hi" });
+    await pi.emit("agent_start");
+    expect(sent(serve)).toEqual([]);
+  });
+});
+
+describe("attachments", () => {
+  async function sendFile(filename: string, data: Buffer | string, size = Buffer.byteLength(data)) {
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+    transport.attachments.set("f1", data);
+    transport.lastServe.message({
+      id: "f1",
+      senderInboxId: "alice-inbox",
+      content: `[remote attachment: ${filename} (${size} bytes) https://files/f1]`,
+    });
+    await flush();
+  }
+
+  const inboxPath = (filename: string) => join(dir, "convos-inbox", "conv-1", `f1-${filename}`);
+
+  it("puts an excerpt of text files in the turn and keeps the file", async () => {
+    await sendFile("trace.log", "boot\n".repeat(5000) + "Error: boom\n    at main (index.ts:1)\n");
+
+    const last = pi.messages.at(-1)!;
+    expect(last.message.content).toContain(`trace.log (24.5 KB) saved to ${inboxPath("trace.log")}`);
+    expect(last.message.content).toContain("Excerpt (last");
+    expect(last.message.content).toContain("Error: boom");
+    expect(last.message.content.length).toBeLessThan(9000);
+    expect(last.message.details.attachment).toMatchObject({ path: inboxPath("trace.log"), truncated: true });
+    expect(readFileSync(inboxPath("trace.log"), "utf-8")).toContain("Error: boom");
+  });
+
+  it("passes binary files as a path", async () => {
+    await sendFile("report.pdf", Buffer.from([0x25, 0x50, 0x44, 0x46, 0, 1, 2]));
+
+    const content = pi.messages.at(-1)!.message.content;
+    expect(content).toContain(`saved to ${inboxPath("report.pdf")}`);
+    expect(content).toContain("binary file");
+  });
+
+  it("sends images inline", async () => {
+    await sendFile("shot.png", Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+
+    const [text, image] = pi.userMessages.at(-1)!.content;
+    expect(text.text).toContain("shot.png");
+    expect(image).toMatchObject({ type: "image", mimeType: "image/png", data: "iVBORw==" });
+  });
+
+  it("skips files over the size limit", async () => {
+    vi.stubEnv("CONVOS_ATTACHMENT_MAX_MB", "1");
+    await sendFile("dump.bin", "x", 5 * 1024 * 1024);
+
+    expect(transport.calls.some((c) => c.method === "downloadAttachment")).toBe(false);
+    expect(pi.messages.at(-1)!.message.content).toContain("not downloaded: larger than the 1.0 MB limit");
+  });
+
+  it("keeps only path-safe filenames", async () => {
+    await sendFile("../../etc/passwd", "root:x:0:0");
+    expect(pi.messages.at(-1)!.message.details.attachment.path).toBe(inboxPath("passwd"));
+  });
+
+  it("keeps handling events while a download is slow, without reordering messages", async () => {
+    writeFileSync(statePath, JSON.stringify({ conversations: [{ conversationId: "conv-1" }, { conversationId: "conv-2" }] }));
+    await startHeadless();
+    const [first, second] = transport.serves;
+    first.ready("conv-1");
+    second.ready("conv-2");
+    await flush();
+    const turns = () => pi.messages.filter((m) => m.message.details?.type === "message").map((m) => m.message.details.id);
+
+    const release = transport.hold("downloadAttachment");
+    transport.attachments.set("f1", "notes");
+    first.message({ id: "f1", senderInboxId: "alice-inbox", content: "[remote attachment: notes.txt (5 bytes) https://files/f1]" });
+    first.message({ id: "m1", senderInboxId: "alice-inbox", content: "did you get it?" });
+    second.message({ id: "m2", senderInboxId: "bob-inbox", content: "unrelated" });
+    await flush();
+    expect(turns()).toEqual(["m2"]);
+
+    release();
+    await flush();
+    expect(turns()).toEqual(["m2", "f1", "m1"]);
+  });
+});
+
+describe("catch-up", () => {
+  function persistLastSeen(lastSeenTimestampNs: string) {
+    writeFileSync(statePath, JSON.stringify({
+      conversations: [{ conversationId: "conv-1", lastSeenTimestampNs }],
+    }));
+  }
+
+  it("replays messages sent after the last seen timestamp, skipping our own", async () => {
+    persistLastSeen("100");
+    transport.messages.set("conv-1", [
+      { id: "old", senderInboxId: "alice-inbox", content: { text: "already seen" }, sentAtNs: "90" },
+      { id: "a", senderInboxId: "alice-inbox", content: { text: "are you there?" }, sentAtNs: "110" },
+      { id: "b", senderInboxId: "self-inbox", content: { text: "our reply" }, sentAtNs: "120" },
+    ]);
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    const replayed = pi.messages.filter((m) => m.message.details?.type === "message");
+    expect(replayed.map((m) => m.message.content)).toEqual([
+      "[Convos message from alice-inbox in conversation conv-1] are you there?",
+    ]);
+    expect(readState().conversations[0].lastSeenTimestampNs).toBe("120");
+  });
+
+  it("includes replies, reactions and attachments", async () => {
+    persistLastSeen("100");
+    transport.messages.set("conv-1", [
+      { id: "m0", senderInboxId: "self-inbox", content: { text: "Shall I ship it?" }, sentAtNs: "105" },
+      { id: "r", senderInboxId: "alice-inbox", contentType: { typeId: "reply" }, content: { reference: "m0", content: { text: "agreed" } }, sentAtNs: "110" },
+      { id: "x", senderInboxId: "alice-inbox", contentType: { typeId: "reaction" }, content: { content: "👍", reference: "m0", action: "added" }, sentAtNs: "120" },
+      { id: "f", senderInboxId: "alice-inbox", contentType: { typeId: "remoteStaticAttachment" }, content: { filename: "notes.txt", contentLength: 12, url: "https://files/notes" }, sentAtNs: "130" },
+    ]);
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    // Replayed messages are delivered as one turn
+    const batch = pi.messages.find((m) => m.message.details?.type === "messages")!;
+    const details = batch.message.details.messages;
+    expect(details.map((d: any) => d.type === "reaction" ? d.emoji : d.content)).toEqual([
+      "agreed",
+      "👍",
+      "[remote attachment: notes.txt (12 bytes) https://files/notes]",
+    ]);
+    expect(details[0]).toMatchObject({ contentType: "reply", replyTo: "m0" });
+    expect(details[1]).toMatchObject({ type: "reaction", targetId: "m0", target: { fromSelf: true } });
+    expect(batch.message.content).toContain('[x] alice-inbox: reacted 👍 to your message [m0]: "Shall I ship it?"');
+  });
+
+  it("does not move the catch-up position on shutdown", async () => {
+    persistLastSeen("100");
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+    transport.lastServe.exit(1);
+    await flush();
+
+    await pi.emit("session_shutdown");
+    expect(readState().conversations[0].lastSeenTimestampNs).toBe("100");
+  });
+
+  it("passes stale chat commands and approval answers on as plain messages", async () => {
+    vi.stubEnv("CONVOS_APPROVAL_TOOLS", "bash");
+    persistLastSeen("100");
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    transport.lastServe.message({ id: "m1", senderInboxId: "alice-inbox", content: "run the tests" });
+    await flush();
+    const decision = pi.emit("tool_call", { toolName: "bash", toolCallId: "t1", input: { command: "npm test" } });
+    await flush();
+
+    transport.lastServe.exit(1);
+    transport.messages.set("conv-1", [
+      { id: "a", senderInboxId: "alice-inbox", content: { text: "/pause" }, sentAtNs: "110" },
+      { id: "b", senderInboxId: "alice-inbox", content: { text: "yes" }, sentAtNs: "120" },
+    ]);
+    await vi.waitFor(() => expect(transport.serves).toHaveLength(2), { timeout: 5000 });
+    transport.lastServe.ready("conv-1");
+    await flush();
+    await flush();
+
+    expect(pi.convosContents()).toEqual(expect.arrayContaining([
+      expect.stringContaining("alice-inbox: /pause"),
+      expect.stringContaining("alice-inbox: yes"),
+    ]));
+    expect(transport.lastServe.commands).toEqual([]);
+    const pending = await Promise.race([decision.then(() => "decided"), new Promise((r) => setTimeout(() => r("pending"), 10))]);
+    expect(pending).toBe("pending");
+  });
+
+  it("keeps acting on live messages in other conversations while a backlog replays", async () => {
+    writeFileSync(statePath, JSON.stringify({
+      conversations: [{ conversationId: "conv-1", lastSeenTimestampNs: "100" }, { conversationId: "conv-2" }],
+    }));
+    transport.messages.set("conv-1", [
+      { id: "f", senderInboxId: "alice-inbox", contentType: { typeId: "remoteStaticAttachment" }, content: { filename: "notes.txt", contentLength: 5, url: "https://files/f" }, sentAtNs: "110" },
+    ]);
+    transport.attachments.set("f", "notes");
+    const release = transport.hold("downloadAttachment");
+    const ctx = createStubContext({ hasUI: false });
+    convosExtension(pi.api, transport);
+    await pi.emit("session_start", { reason: "startup" }, ctx);
+    const [first, second] = transport.serves;
+    first.ready("conv-1");
+    second.ready("conv-2");
+    await flush();
+    await pi.emit("agent_start");
+
+    second.message({ id: "c1", senderInboxId: "bob-inbox", content: "/stop" });
+    second.message({ id: "m2", senderInboxId: "bob-inbox", content: "and then this" });
+    await flush();
+
+    expect(ctx.abort).toHaveBeenCalled();
+    expect(second.commands.map((c: any) => c.text)).toEqual(["Stopped the running turn."]);
+    const turns = () => pi.messages.filter((m) => m.message.details?.type === "message").map((m) => m.message.details.id);
+    expect(turns()).toEqual(["m2"]);
+
+    release();
+    await flush();
+    expect(turns()).toEqual(["m2", "f"]);
+  });
+
+  it("pages through the whole backlog and summarizes it", async () => {
+    persistLastSeen("0");
+    transport.messages.set("conv-1", Array.from({ length: 250 }, (_, i) => ({
+      id: `m${i}`,
+      senderInboxId: i % 2 ? "alice-inbox" : "bob-inbox",
+      content: { text: `message ${i}` },
+      sentAtNs: String(i + 1),
+    })));
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    const pages = transport.calls.filter((c) => c.method === "conversationMessages");
+    expect(pages.map((c) => (c.args[1] as any).sentAfterNs)).toEqual(["0", "100", "200"]);
+
+    const summary = pi.messages.find((m) => m.message.details?.type === "catch_up")!;
+    expect(summary.message.details).toMatchObject({ type: "catch_up", count: 250, truncated: false });
+    expect(summary.message.content).toContain("From: bob-inbox (125), alice-inbox (125).");
+    expect(summary.message.content).toContain("[m249] alice-inbox: message 249");
+    expect(summary.message.content).not.toContain("message 239");
+    expect(summary.options).toEqual({ triggerTurn: true, deliverAs: "steer" });
+    expect(readState().conversations[0].lastSeenTimestampNs).toBe("250");
+  });
+
+  it("catches up when /convos-start resumes in interactive mode", async () => {
+    persistLastSeen("100");
+    transport.messages.set("conv-1", [
+      { id: "a", senderInboxId: "alice-inbox", content: { text: "back yet?" }, sentAtNs: "110" },
+    ]);
+    convosExtension(pi.api, transport);
+    await pi.emit("session_start", { reason: "startup" }, createStubContext({ hasUI: true }));
+    await pi.runCommand("convos-start");
+
+    expect(transport.lastServe.args[0]).toBe("conv-1");
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    expect(pi.convosContents().at(-1)).toBe("[Convos message from alice-inbox in conversation conv-1] back yet?");
+  });
+});
+
+describe("tools", () => {
+  async function startTwoConversations() {
+    writeFileSync(statePath, JSON.stringify({
+      conversations: [{ conversationId: "conv-a" }, { conversationId: "conv-b" }],
+    }));
+    await startHeadless();
+    transport.serves[0].ready("conv-a");
+    transport.serves[1].ready("conv-b");
+    await flush();
+  }
+
+  it("sends to the conversation of the latest Convos message by default", async () => {
+    await startTwoConversations();
+    transport.serves[1].message({ id: "m1", senderInboxId: "alice-inbox", content: "ping" });
+    await flush();
+
+    const result = await pi.runTool("convos_send", { text: "pong" });
+
+    expect(result.isError).toBeUndefined();
+    expect(transport.serves[1].commands.at(-1)).toMatchObject({ type: "send", text: "pong" });
+    expect(transport.serves[0].commands).toHaveLength(0);
+    expect(result.details.messageIds).toEqual(["sent-1"]);
+  });
+
+  it("honours an explicit conversationId and rejects unknown ones", async () => {
+    await startTwoConversations();
+
+    await pi.runTool("convos_send", { text: "hi a", conversationId: "conv-a" });
+    expect(transport.serves[0].commands.at(-1)).toMatchObject({ text: "hi a" });
+
+    const result = await pi.runTool("convos_send", { text: "hi", conversationId: "nope" });
+    expect(result.isError).toBe(true);
+  });
+
+  it("strips markdown and only replies with the first chunk", async () => {
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+    const long = ["**First** paragraph.", "x".repeat(990), "Last paragraph."].join("\n\n");
+
+    const result = await pi.runTool("convos_send", { text: long, replyTo: "m9" });
+
+    const sends = transport.lastServe.commands.filter((c) => c.type === "send");
+    expect(sends.length).toBe(result.details.chunks);
+    expect(sends.length).toBeGreaterThan(1);
+    expect(sends[0]).toMatchObject({ replyTo: "m9" });
+    expect(sends[0].text.startsWith("First paragraph.")).toBe(true);
+    expect(sends.slice(1).every((c) => c.replyTo === undefined)).toBe(true);
+  });
+
+  it("reports failed deliveries as errors", async () => {
+    await startHeadless();
+    const serve = transport.lastServe;
+    serve.ready("conv-1");
+    await flush();
+    serve.autoConfirm = false;
+
+    const pending = pi.runTool("convos_send", { text: "hello" });
+    await flush();
+    serve.error("invalid message", serve.commands.at(-1).requestId);
+
+    const result = await pending;
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("invalid message");
+  });
+
+  it("errors when nothing is running", async () => {
+    await startHeadless();
+    const result = await pi.runTool("convos_react", { messageId: "m1", emoji: "👍" });
+    expect(result.isError).toBe(true);
+  });
+
+  it("lists history as compact lines", async () => {
+    transport.members.set("conv-1", [{ inboxId: "alice-inbox" }]);
+    transport.profiles.set("conv-1", [{ inboxId: "alice-inbox", name: "Alice" }]);
+    transport.messages.set("conv-1", [
+      { id: "m1", senderInboxId: "alice-inbox", content: { text: "deploy failed" }, sentAtNs: "1700000000000000000" },
+      { id: "m2", senderInboxId: "self-inbox", content: { text: "looking" }, sentAtNs: "1700000060000000000" },
+    ]);
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    const result = await pi.runTool("convos_history", { search: "deploy" });
+
+    expect(result.content[0].text).toBe(
+      "1 message(s) in conv-1:\n2023-11-14 22:13Z [m1] Alice: deploy failed",
+    );
+  });
+
+  it("sends files through the transport", async () => {
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    await pi.runTool("convos_send_file", { file: "/tmp/report.txt" });
+
+    expect(transport.calls.at(-1)).toEqual({
+      method: "sendAttachment",
+      args: ["conv-1", "/tmp/report.txt", join(dir, ".env")],
+    });
+  });
+});
+
+describe("supervision", () => {
+  it("restarts a crashed child and resumes the conversation", async () => {
+    vi.useFakeTimers();
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    transport.lastServe.exit(1);
+    expect(pi.messages.at(-1)!.message.details).toMatchObject({ type: "restart", attempt: 1 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(transport.serves).toHaveLength(2);
+    expect(transport.lastServe.args).toEqual(["conv-1", "--env-file", join(dir, ".env"), "--profile-name", "Pi"]);
+
+    transport.lastServe.ready("conv-1");
+    await flush();
+    expect(pi.messages.at(-1)!.message.details).toMatchObject({ type: "restarted", conversationId: "conv-1" });
+  });
+
+  it("restarts after the child fails to spawn", async () => {
+    vi.useFakeTimers();
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+
+    transport.lastServe.spawnError();
+    expect(pi.messages.at(-1)!.message.details).toMatchObject({ type: "restart", attempt: 1 });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(transport.serves).toHaveLength(2);
+  });
+
+  it("gives up after repeated failures", async () => {
+    vi.useFakeTimers();
+    await startHeadless();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      transport.lastServe.exit(1);
+      await vi.advanceTimersByTimeAsync(60_000);
+    }
+    transport.lastServe.exit(1);
+
+    expect(transport.serves).toHaveLength(6);
+    expect(pi.messages.at(-1)!.message.details).toMatchObject({ type: "restart_gave_up" });
+  });
+});
+
+describe("schedules", () => {
+  const HOUR = 3_600_000;
+  const schedulesInState = () => readState().schedules;
+  const sends = () => transport.lastServe.commands.filter((c) => c.type === "send").map((c) => c.text);
+
+  async function startReady() {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+  }
+
+  it("sends fixed text when it comes due and forgets one-shot schedules", async () => {
+    await startReady();
+    const result = await pi.runTool("convos_schedule", { at: "in 2h", text: "Test results?" });
+    expect(result.isError).toBeUndefined();
+    expect(schedulesInState()).toMatchObject([
+      { id: result.details.schedule.id, conversationId: "conv-1", kind: "message", dueAt: "2026-10-19T14:00:00.000Z", repeat: null },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(2 * HOUR - 1000);
+    expect(sends()).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1000);
+    await flush();
+    expect(sends()).toEqual(["Test results?"]);
+    expect(pi.messages.at(-1)!.message.details).toMatchObject({ type: "schedule_run", late: false });
+    expect(schedulesInState()).toEqual([]);
+  });
+
+  it("starts a follow-up turn for a prompt and moves a repeating schedule on", async () => {
+    await startReady();
+    const { details } = await pi.runTool("convos_schedule", {
+      at: "2026-10-19T13:00:00Z",
+      prompt: "Summarize yesterday's commits",
+      repeat: "daily",
+    });
+
+    await vi.advanceTimersByTimeAsync(HOUR);
+    const turn = pi.messages.find((m) => m.message.details?.type === "schedule_run")!;
+    expect(turn.options).toEqual({ triggerTurn: true, deliverAs: "followUp" });
+    expect(turn.message.content).toBe(
+      `[Scheduled Convos prompt ${details.schedule.id} for conversation conv-1] Summarize yesterday's commits\nSend the result to the conversation with convos_send.`,
+    );
+    expect(schedulesInState()[0]).toMatchObject({ dueAt: "2026-10-20T13:00:00.000Z", lastRunAt: "2026-10-19T13:00:00.000Z" });
+  });
+
+  it("leaves a running terminal turn alone until the scheduled prompt reaches the agent", async () => {
+    vi.stubEnv("CONVOS_APPROVAL_TOOLS", "bash");
+    await startReady();
+    await pi.runTool("convos_schedule", { at: "in 1h", prompt: "Check the build" });
+    await pi.emit("input", { source: "interactive", text: "refactor this" });
+    await pi.emit("agent_start");
+
+    await vi.advanceTimersByTimeAsync(HOUR);
+    const turn = pi.messages.find((m) => m.message.details?.type === "schedule_run")!;
+    const [terminalCall] = await pi.emit("tool_call", { toolName: "bash", toolCallId: "t1", input: { command: "ls" } });
+    expect(terminalCall).toBeUndefined();
+    expect(sends()).toEqual([]);
+
+    await pi.emit("message_start", { message: { role: "custom", ...turn.message } });
+    pi.emit("tool_call", { toolName: "bash", toolCallId: "t2", input: { command: "npm test" } });
+    await flush();
+    expect(sends()).toEqual([expect.stringContaining("Approval needed for bash")]);
+  });
+
+  it("rejects times it cannot read and requires text or a prompt", async () => {
+    await startReady();
+    expect((await pi.runTool("convos_schedule", { at: "soonish", text: "x" })).isError).toBe(true);
+    expect((await pi.runTool("convos_schedule", { at: "in 1h" })).isError).toBe(true);
+    expect((await pi.runTool("convos_schedule", { at: "in 1h", text: "x", repeat: "every 1m" })).isError).toBe(true);
+  });
+
+  it("lists and cancels schedules", async () => {
+    await startReady();
+    const { details } = await pi.runTool("convos_schedule", { at: "in 1h", text: "Stand up", repeat: "weekdays" });
+
+    const list = await pi.runTool("convos_schedule_list", {});
+    expect(list.content[0].text).toContain(`${details.schedule.id} — conv-1 — every weekday, next 2026-10-19T13:00:00.000Z — message: "Stand up"`);
+
+    await pi.runTool("convos_schedule_cancel", { id: details.schedule.id });
+    expect(schedulesInState()).toEqual([]);
+    expect((await pi.runTool("convos_schedule_cancel", { id: details.schedule.id })).isError).toBe(true);
+    await vi.advanceTimersByTimeAsync(2 * HOUR);
+    expect(sends()).toEqual([]);
+  });
+
+  it("runs or skips schedules missed while pi was down", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+    const schedule = { conversationId: "conv-1", kind: "message", repeat: null, createdAt: "2026-10-18T00:00:00Z" };
+    writeFileSync(statePath, JSON.stringify({
+      version: 3,
+      conversations: [{ conversationId: "conv-1" }],
+      history: [],
+      schedules: [
+        { ...schedule, id: "sch-run", text: "Late but sent", dueAt: "2026-10-19T08:00:00.000Z", ifMissed: "run" },
+        { ...schedule, id: "sch-skip", text: "Standup", dueAt: "2026-10-19T09:00:00.000Z", ifMissed: "skip", repeat: "daily" },
+      ],
+    }));
+    await startHeadless();
+
+    const report = pi.messages.find((m) => m.message.details?.type === "schedules_missed")!;
+    expect(report.message.details.skipped.map((s: any) => s.id)).toEqual(["sch-skip"]);
+    expect(report.message.details.running.map((s: any) => s.id)).toEqual(["sch-run"]);
+    expect(schedulesInState().map((s: any) => [s.id, s.dueAt])).toEqual([
+      ["sch-run", "2026-10-19T08:00:00.000Z"],
+      ["sch-skip", "2026-10-20T09:00:00.000Z"],
+    ]);
+
+    transport.lastServe.ready("conv-1");
+    await flush();
+    await vi.advanceTimersByTimeAsync(0);
+    await flush();
+    expect(sends()).toEqual(["Late but sent"]);
+    expect(schedulesInState().map((s: any) => s.id)).toEqual(["sch-skip"]);
+  });
+});
+
+describe("outbox", () => {
+  const outbox = () => readState().outbox;
+
+  it("queues replies while the child restarts and sends them in order on ready", async () => {
+    vi.useFakeTimers();
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+    transport.lastServe.exit(1);
+
+    const sent = await pi.runTool("convos_send", { text: "first", replyTo: "m1" });
+    const reacted = await pi.runTool("convos_react", { messageId: "m1", emoji: "👍" });
+    expect(sent.isError).toBeUndefined();
+    expect(sent.content[0].text).toMatch(/^Queued for conv-1 in 1 chunk\(s\) until its Convos agent is back/);
+    expect(sent.details).toMatchObject({ queued: true, conversationId: "conv-1" });
+    expect(reacted.details.queued).toBe(true);
+    expect(outbox().map((e: any) => e.command)).toEqual([
+      { type: "send", text: "first", replyTo: "m1" },
+      { type: "react", messageId: "m1", emoji: "👍" },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    transport.lastServe.ready("conv-1");
+    await flush();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(transport.lastServe.commands.map(({ requestId, ...command }) => command)).toEqual([
+      { type: "send", text: "first", replyTo: "m1" },
+      { type: "react", messageId: "m1", emoji: "👍" },
+    ]);
+    expect(outbox()).toEqual([]);
+    const report = pi.messages.find((m) => m.message.details?.type === "outbox_sent")!;
+    expect(report.message.details.delivered).toHaveLength(2);
+
+    const direct = await pi.runTool("convos_send", { text: "second" });
+    expect(direct.details).toMatchObject({ queued: false, messageIds: ["sent-3"] });
+  });
+
+  it("keeps the outbox across restarts of pi until the conversation is ready", async () => {
+    writeFileSync(statePath, JSON.stringify({ version: 4, conversations: [{ conversationId: "conv-a" }] }));
+    await startHeadless();
+    const result = await pi.runTool("convos_send", { text: "before ready" });
+    expect(result.details.queued).toBe(true);
+
+    await pi.emit("session_shutdown");
+    pi = createStubPi();
+    await startHeadless();
+    expect(outbox()).toMatchObject([{ conversationId: "conv-a", command: { text: "before ready" } }]);
+    transport.lastServe.ready("conv-a");
+    await flush();
+    await flush();
+    expect(transport.lastServe.commands).toMatchObject([{ type: "send", text: "before ready" }]);
+  });
+
+  it("still catches up on messages sent during the outage after flushing the outbox", async () => {
+    writeFileSync(statePath, JSON.stringify({
+      version: 4,
+      conversations: [{ conversationId: "conv-a", lastSeenTimestampNs: "100" }],
+    }));
+    await startHeadless();
+    expect((await pi.runTool("convos_send", { text: "sorry, was away" })).details.queued).toBe(true);
+    transport.messages.set("conv-a", [
+      { id: "a", senderInboxId: "alice-inbox", content: { text: "anyone there?" }, sentAtNs: "110" },
+    ]);
+
+    transport.lastServe.ready("conv-a");
+    await flush();
+    await flush();
+
+    expect(transport.lastServe.commands).toMatchObject([{ type: "send", text: "sorry, was away" }]);
+    const pages = transport.calls.filter((c) => c.method === "conversationMessages");
+    expect((pages[0].args[1] as any).sentAfterNs).toBe("100");
+    expect(pi.convosContents()).toContain("[Convos message from alice-inbox in conversation conv-a] anyone there?");
+  });
+
+  it("counts a queued reply once it is delivered", async () => {
+    vi.useFakeTimers();
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    transport.lastServe.message({ id: "m1", senderInboxId: "alice-inbox", content: "ping" });
+    await flush();
+    transport.lastServe.exit(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    await pi.runTool("convos_send", { text: "pong" });
+
+    const latency = async () => {
+      await pi.runCommand("convos-status");
+      return pi.messages.at(-1)!.message.details.metrics.replyLatencyMs;
+    };
+    expect(await latency()).toMatchObject({ count: 0 });
+
+    transport.lastServe.ready("conv-1");
+    await flush();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await latency()).toMatchObject({ count: 1, p50: 1000 });
+  });
+
+  it("queues files by absolute path and rejects missing ones", async () => {
+    writeFileSync(statePath, JSON.stringify({ version: 4, conversations: [{ conversationId: "conv-a" }] }));
+    writeFileSync(join(dir, "report.txt"), "hi");
+    await startHeadless();
+
+    expect((await pi.runTool("convos_send_file", { file: "missing.txt" })).isError).toBe(true);
+    expect((await pi.runTool("convos_send_file", { file: "report.txt" })).details.queued).toBe(true);
+
+    transport.lastServe.ready("conv-a");
+    await flush();
+    await flush();
+    expect(transport.calls.filter((c) => c.method === "sendAttachment").map((c) => c.args[1])).toEqual([
+      join(process.cwd(), "report.txt"),
+    ]);
+  });
+
+  it("lists and clears the outbox with /convos-outbox", async () => {
+    writeFileSync(statePath, JSON.stringify({
+      version: 4,
+      conversations: [{ conversationId: "conv-a" }, { conversationId: "conv-b" }],
+    }));
+    await startHeadless();
+    await pi.runTool("convos_send", { text: "to a", conversationId: "conv-a" });
+    await pi.runTool("convos_send", { text: "to b", conversationId: "conv-b" });
+
+    await pi.runCommand("convos-outbox");
+    expect(pi.messages.at(-1)!.message.details.entries).toHaveLength(2);
+    expect(pi.convosContents().at(-1)).toMatch(/^2 command\(s\) waiting in the Convos outbox:\n  out-\w+ — conv-a — message "to a"/);
+
+    await pi.runCommand("convos-outbox", "clear conv-a");
+    expect(outbox().map((e: any) => e.conversationId)).toEqual(["conv-b"]);
+    await pi.runCommand("convos-outbox", "clear");
+    expect(outbox()).toEqual([]);
+  });
+});
+
+describe("logging and metrics", () => {
+  const jsonLines = () =>
+    [...vi.mocked(console.log).mock.calls, ...vi.mocked(console.error).mock.calls].map(([line]) => JSON.parse(String(line)));
+
+  it("writes JSON lines with the event, conversation, message and sender", async () => {
+    vi.stubEnv("CONVOS_LOG_FORMAT", "json");
+    vi.stubEnv("CONVOS_LOG_LEVEL", "debug");
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+    transport.lastServe.message({ id: "m1", senderInboxId: "alice-inbox", content: "ping" });
+    await flush();
+    transport.lastServe.stderr("warning: slow sync");
+
+    const lines = jsonLines();
+    expect(lines.find((line) => line.event === "ready")).toMatchObject({
+      level: "info",
+      conversationId: "conv-1",
+      inviteUrl: "https://convos.org/join/conv-1",
+    });
+    expect(lines.find((line) => line.event === "message_in")).toMatchObject({
+      msg: "Convos message from alice-inbox in conv-1: ping",
+      conversationId: "conv-1",
+      messageId: "m1",
+      sender: "alice-inbox",
+    });
+    expect(lines.find((line) => line.event === "serve_stderr")).toMatchObject({ level: "debug", msg: "warning: slow sync" });
+  });
+
+  it("leaves out child stderr below the configured level", async () => {
+    vi.stubEnv("CONVOS_LOG_FORMAT", "json");
+    await startHeadless();
+    transport.lastServe.stderr("warning: slow sync");
+    expect(jsonLines().some((line) => line.event === "serve_stderr")).toBe(false);
+  });
+
+  it("counts messages, turns, restarts and reply latency for /convos-status and the metrics file", async () => {
+    vi.useFakeTimers();
+    vi.stubEnv("CONVOS_METRICS_FILE", "metrics.json");
+    await startHeadless();
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    transport.lastServe.message({ id: "m1", senderInboxId: "alice-inbox", content: "ping" });
+    await flush();
+    await vi.advanceTimersByTimeAsync(4000);
+    await pi.runTool("convos_send", { text: "pong" });
+    transport.lastServe.exit(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    transport.lastServe.ready("conv-1");
+    await flush();
+
+    await pi.runCommand("convos-status");
+    const { metrics } = pi.messages.at(-1)!.message.details;
+    expect(metrics).toMatchObject({
+      messagesIn: 1,
+      messagesOut: 1,
+      steerTurns: 1,
+      childRestarts: 1,
+      catchUp: { runs: 2, messages: 0 },
+      replyLatencyMs: { count: 1, p50: 4000, max: 4000 },
+    });
+    expect(pi.convosContents().at(-1)).toContain("Reply latency: 1 reply, p50 4.0s, p95 4.0s, max 4.0s");
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(JSON.parse(readFileSync(join(dir, "metrics.json"), "utf-8"))).toMatchObject({ messagesIn: 1, childRestarts: 1 });
+  });
+});
+
+describe("tool approval", () => {
+  it("waits for an owner to approve a risky tool call", async () => {
+    vi.stubEnv("CONVOS_APPROVAL_TOOLS", "bash");
+    await startHeadless();
+    const serve = transport.lastServe;
+    serve.ready("conv-1");
+    serve.message({ id: "m1", senderInboxId: "alice-inbox", content: "run the tests" });
+    await flush();
+
+    const decision = pi.emit("tool_call", { toolName: "bash", toolCallId: "t1", input: { command: "npm test" } });
+    await flush();
+    expect(serve.commands.at(-1).text).toContain("$ npm test");
+
+    serve.message({ id: "m2", senderInboxId: "alice-inbox", content: "yes" });
+    await flush();
+    const [result] = await decision;
+    expect(result).toBeUndefined();
+    expect(pi.messages.at(-1)!.message.details).toMatchObject({ type: "approval_result", approved: true });
+  });
+
+  it("blocks the call when denied", async () => {
+    vi.stubEnv("CONVOS_APPROVAL_TOOLS", "bash");
+    await startHeadless();
+    const serve = transport.lastServe;
+    serve.ready("conv-1");
+    serve.message({ id: "m1", senderInboxId: "alice-inbox", content: "clean up" });
+    await flush();
+
+    const decision = pi.emit("tool_call", { toolName: "bash", toolCallId: "t1", input: { command: "rm -rf build" } });
+    await flush();
+    serve.message({ id: "m2", senderInboxId: "alice-inbox", content: "no" });
+    await flush();
+
+    const [result] = await decision;
+    expect(result).toMatchObject({ block: true });
+  });
+});
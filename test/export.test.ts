@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { parseExportDate, renderJsonl, renderMarkdown, type Transcript } from "../extensions/convos/export.js";
+
+const transcript: Transcript = {
+  conversationId: "conv-1",
+  name: "Incident",
+  exportedAt: "2026-10-19T12:00:00.000Z",
+  since: "2026-10-19T00:00:00.000Z",
+  until: null,
+  entries: [
+    { id: "m1", sentAt: "2026-10-19T09:15:00.000Z", senderInboxId: "a", sender: "Alice", fromSelf: false, contentType: "text", text: "Option A or\nB?" },
+    { id: "m2", sentAt: "2026-10-19T09:16:00.000Z", senderInboxId: "p", sender: "Pi", fromSelf: true, contentType: "reply", text: "B", replyTo: "m1" },
+    {
+      id: "r1", sentAt: "2026-10-19T09:17:00.000Z", senderInboxId: "a", sender: "Alice", fromSelf: false, contentType: "reaction",
+      text: "reacted 👍 to m2", reaction: { emoji: "👍", targetId: "m2", action: "added" },
+    },
+    {
+      id: "f1", sentAt: "2026-10-20T08:00:00.000Z", senderInboxId: "a", sender: "Alice", fromSelf: false, contentType: "remoteStaticAttachment",
+      text: "[remote attachment: crash log.txt]", attachment: { filename: "crash log.txt", path: "x-files/f1-crash log.txt" },
+    },
+    {
+      id: "f2", sentAt: "2026-10-20T08:01:00.000Z", senderInboxId: "a", sender: "Alice", fromSelf: false, contentType: "attachment",
+      text: "[attachment: big.zip]", attachment: { filename: "big.zip", path: null, error: "download failed: gone" },
+    },
+  ],
+};
+
+describe("renderMarkdown", () => {
+  it("groups messages by day and shows replies, reactions and attachments", () => {
+    expect(renderMarkdown(transcript)).toBe([
+      "# Convos transcript: Incident",
+      "",
+      "- Conversation: `conv-1`",
+      "- Exported: 2026-10-19T12:00:00.000Z",
+      "- Range: 2026-10-19T00:00:00.000Z – now",
+      "- Messages: 5",
+      "",
+      "## 2026-10-19",
+      "",
+      "**09:15Z Alice** `m1`",
+      "Option A or\nB?",
+      "",
+      "**09:16Z Pi** `m2`",
+      "> ↩ Alice `m1`: Option A or B?",
+      "B",
+      "",
+      "**09:17Z Alice** `r1` reacted 👍 to Pi's message `m2`",
+      "",
+      "## 2026-10-20",
+      "",
+      "**08:00Z Alice** `f1`",
+      "📎 [crash log.txt](x-files/f1-crash%20log.txt)",
+      "",
+      "**08:01Z Alice** `f2`",
+      "📎 big.zip (not downloaded: download failed: gone)",
+      "",
+    ].join("\n"));
+  });
+});
+
+describe("renderJsonl", () => {
+  it("writes a header line and one line per message", () => {
+    const lines = renderJsonl(transcript).trim().split("\n").map((line) => JSON.parse(line));
+    expect(lines[0]).toEqual({
+      type: "conversation",
+      conversationId: "conv-1",
+      name: "Incident",
+      exportedAt: "2026-10-19T12:00:00.000Z",
+      since: "2026-10-19T00:00:00.000Z",
+      until: null,
+    });
+    expect(lines.slice(1).map((line) => line.id)).toEqual(["m1", "m2", "r1", "f1", "f2"]);
+    expect(lines[3]).toMatchObject({ type: "message", reaction: { emoji: "👍", targetId: "m2" } });
+  });
+});
+
+describe("parseExportDate", () => {
+  const now = new Date(2026, 9, 19, 15, 30);
+
+  it("understands today, yesterday and local dates", () => {
+    expect(parseExportDate("today", { now })).toEqual(new Date(2026, 9, 19));
+    expect(parseExportDate("yesterday", { now })).toEqual(new Date(2026, 9, 18));
+    expect(parseExportDate("2026-10-01")).toEqual(new Date(2026, 9, 1));
+  });
+
+  it("includes the whole day when a date ends the range", () => {
+    expect(parseExportDate("today", { end: true, now })).toEqual(new Date(2026, 9, 20));
+    expect(parseExportDate("2026-10-01T10:00:00Z", { end: true })).toEqual(new Date("2026-10-01T10:00:00Z"));
+  });
+
+  it("rejects anything else", () => {
+    expect(parseExportDate("last week")).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { formatOutgoingMessage, markdownToPlainText, splitIntoChunks } from "../extensions/convos/format.js";
+
+describe("markdownToPlainText", () => {
+  it("flattens emphasis, headings and links", () => {
+    expect(markdownToPlainText("## Done\n**Tests** pass, see [the log](https://ci/1) and `npm test`."))
+      .toBe("Done\nTests pass, see the log (https://ci/1) and npm test.");
+  });
+
+  it("turns lists and checkboxes into bullets", () => {
+    expect(markdownToPlainText("- one\n  * two\n- [ ] todo\n- [x] done"))
+      .toBe("• one\n  • two\n• ☐ todo\n• ☑ done");
+  });
+
+  it("indents fenced code and leaves it untouched", () => {
+    expect(markdownToPlainText("Run:\n```sh\nnpm **test**\n```")).toBe("Run:\n    npm **test**");
+  });
+
+  it("drops rules and table separators", () => {
+    expect(markdownToPlainText("| a | b |\n|---|---|\n| 1 | 2 |\n\n---\nend"))
+      .toBe("a | b\n1 | 2\n\nend");
+  });
+});
+
+describe("splitIntoChunks", () => {
+  it("keeps short text in one chunk", () => {
+    expect(splitIntoChunks("hello\n\nworld", 100)).toEqual(["hello\n\nworld"]);
+  });
+
+  it("splits on paragraph boundaries first", () => {
+    expect(splitIntoChunks("aaaa\n\nbbbb\n\ncccc", 10)).toEqual(["aaaa\n\nbbbb", "cccc"]);
+  });
+
+  it("falls back to sentences, words and hard splits", () => {
+    expect(splitIntoChunks("One two. Three four.", 10)).toEqual(["One two.", "Three", "four."]);
+    expect(splitIntoChunks("x".repeat(25), 10)).toEqual(["x".repeat(10), "x".repeat(10), "x".repeat(5)]);
+  });
+
+  it("never exceeds the limit", () => {
+    const text = formatOutgoingMessage(Array.from({ length: 40 }, (_, i) => `Sentence number ${i}.`).join(" "), 50);
+    expect(text.every((chunk) => chunk.length <= 50)).toBe(true);
+  });
+});
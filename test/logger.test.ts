@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { Logger, type LogFormat, type LogLevel } from "../extensions/convos/logger.js";
+
+function capture(level: LogLevel, format: LogFormat) {
+  const lines: [string, LogLevel][] = [];
+  const logger = new Logger({
+    level,
+    format,
+    write: (line, lineLevel) => lines.push([line, lineLevel]),
+    now: () => new Date("2026-10-19T12:00:00.000Z"),
+  });
+  return { logger, lines };
+}
+
+describe("Logger", () => {
+  it("prints the message alone in text format", () => {
+    const { logger, lines } = capture("info", "text");
+    logger.info("\n💬 Convos message from Alice in conv-1: hi", { event: "message_in", conversationId: "conv-1" });
+    logger.warn("⚠ Convos config: bad", { event: "config_warning" });
+    expect(lines).toEqual([
+      ["\n💬 Convos message from Alice in conv-1: hi", "info"],
+      ["⚠ Convos config: bad", "warn"],
+    ]);
+  });
+
+  it("writes one JSON object per line with the event and fields", () => {
+    const { logger, lines } = capture("info", "json");
+    logger.info("\n💬 Convos message from Alice in conv-1: hi", {
+      event: "message_in",
+      conversationId: "conv-1",
+      messageId: "m1",
+      sender: "Alice",
+      replyTo: undefined,
+    });
+    expect(JSON.parse(lines[0][0])).toEqual({
+      time: "2026-10-19T12:00:00.000Z",
+      level: "info",
+      event: "message_in",
+      msg: "Convos message from Alice in conv-1: hi",
+      conversationId: "conv-1",
+      messageId: "m1",
+      sender: "Alice",
+    });
+  });
+
+  it("drops lines below the configured level", () => {
+    const { logger, lines } = capture("warn", "json");
+    logger.debug("stderr line", { event: "serve_stderr" });
+    logger.info("ready", { event: "ready" });
+    logger.error("gave up", { event: "serve_gave_up", error: new Error("boom") });
+    expect(lines.map(([line]) => JSON.parse(line))).toEqual([
+      expect.objectContaining({ level: "error", event: "serve_gave_up", error: { name: "Error", message: "boom" } }),
+    ]);
+  });
+});
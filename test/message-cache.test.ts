@@ -0,0 +1,75 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MessageCache, quoteText, type CachedMessage } from "../extensions/convos/message-cache.js";
+
+let dir: string;
+let path: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "pi-convos-cache-"));
+  path = join(dir, "messages.jsonl");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const message = (id: string, extra: Partial<CachedMessage> = {}): CachedMessage => ({
+  id,
+  conversationId: "conv-1",
+  senderInboxId: "alice-inbox",
+  senderName: "Alice",
+  fromSelf: false,
+  text: `text of ${id}`,
+  ...extra,
+});
+
+const fileLines = () => readFileSync(path, "utf-8").trim().split("\n");
+
+describe("MessageCache", () => {
+  it("keeps only the newest messages", () => {
+    const cache = new MessageCache(null, 3);
+    for (const id of ["a", "b", "c", "d"]) cache.add(message(id));
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.get("d")?.text).toBe("text of d");
+    expect(cache.size).toBe(3);
+  });
+
+  it("survives a restart and skips a torn last line", () => {
+    const cache = new MessageCache(path, 10);
+    cache.add(message("a"));
+    cache.add(message("b", { fromSelf: true, senderInboxId: null, senderName: null }));
+    appendFileSync(path, '{"id": "c", "te');
+
+    const reloaded = new MessageCache(path, 10);
+    expect(reloaded.get("a")?.senderName).toBe("Alice");
+    expect(reloaded.get("b")?.fromSelf).toBe(true);
+    expect(reloaded.size).toBe(2);
+  });
+
+  it("does not forget a known sender name when history repeats a message", () => {
+    const cache = new MessageCache(path, 10);
+    cache.add(message("a"));
+    cache.add(message("a", { senderName: null }));
+    expect(cache.get("a")?.senderName).toBe("Alice");
+    expect(fileLines()).toHaveLength(1);
+  });
+
+  it("rewrites the file once it holds twice the limit", () => {
+    const cache = new MessageCache(path, 2);
+    for (const id of ["a", "b", "c", "d"]) cache.add(message(id));
+    expect(fileLines()).toHaveLength(4);
+
+    cache.add(message("e"));
+    expect(fileLines().map((line) => JSON.parse(line).id)).toEqual(["d", "e"]);
+  });
+});
+
+describe("quoteText", () => {
+  it("flattens whitespace and shortens long text", () => {
+    expect(quoteText("Option B:\n  migrate   the DB")).toBe("Option B: migrate the DB");
+    expect(quoteText("x".repeat(300), 10)).toBe("x".repeat(9) + "…");
+  });
+});
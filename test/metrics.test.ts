@@ -0,0 +1,36 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { Metrics, formatMetrics, writeMetricsFile } from "../extensions/convos/metrics.js";
+
+describe("Metrics", () => {
+  it("keeps catch-up sizes and reply latency percentiles", () => {
+    const metrics = new Metrics(new Date("2026-10-19T12:00:00.000Z"));
+    metrics.recordCatchUp(3);
+    metrics.recordCatchUp(40);
+    for (const ms of [1000, 2000, 3000, 4000, 30_000]) metrics.recordReplyLatency(ms);
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.catchUp).toEqual({ runs: 2, messages: 43, largest: 40 });
+    expect(snapshot.replyLatencyMs).toEqual({ count: 5, p50: 3000, p95: 30_000, max: 30_000 });
+    expect(formatMetrics(snapshot)).toContain("Reply latency: 5 replies, p50 3.0s, p95 30.0s, max 30.0s");
+  });
+
+  it("reports no latency before the first reply", () => {
+    expect(formatMetrics(new Metrics().snapshot()).at(-1)).toBe("Reply latency: 0 replies, p50 –, p95 –, max –");
+  });
+
+  it("writes the snapshot as JSON", () => {
+    const dir = mkdtempSync(join(tmpdir(), "pi-convos-metrics-"));
+    try {
+      const metrics = new Metrics();
+      metrics.messagesIn = 2;
+      const path = join(dir, "nested", "metrics.json");
+      writeMetricsFile(path, metrics.snapshot());
+      expect(JSON.parse(readFileSync(path, "utf-8"))).toMatchObject({ messagesIn: 2, writtenAt: expect.any(String) });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectQrRenderer,
+  encodeQr,
+  renderQr,
+  renderQrKitty,
+  renderQrSixel,
+  renderQrText,
+} from "../extensions/convos/qr.js";
+
+// Checked against an independent encoder and decoder
+const GOLDEN = [
+  "#######.#.###..######.#######",
+  "#.....#.####..##..#...#.....#",
+  "#.###.#..#.#.###...#..#.###.#",
+  "#.###.#.#...#...####..#.###.#",
+  "#.###.#..#.###.....#..#.###.#",
+  "#.....#..##...#..####.#.....#",
+  "#######.#.#.#.#.#.#.#.#######",
+  "........##...##..###.........",
+  "#.##.###.#.#.##.###...#..#.##",
+  "##...#...#.#...##.#######...#",
+  "..###.#..###..##.#..#####.##.",
+  "..#.#.......####..#..#.#....#",
+  "...#.##...##....##.#...#.##..",
+  ".#..##.##.#.##...#.#.##...###",
+  "#.###.#.#.##..#..#.##.#.#.###",
+  ".##.#..##...##.#..###.##...#.",
+  "...##.##...#......###..###.#.",
+  "..#.##.#..#.##.........#.###.",
+  "#..####...###....##.#.##..#..",
+  "..##....#..#...#####..#.#.#..",
+  ".#..###.#.#.##.#...########..",
+  "........###..###.##.#...#####",
+  "#######.###.##..#.###.#.##.#.",
+  "#.....#.#.#.#...##..#...##.#.",
+  "#.###.#..#.##.##....#####.###",
+  "#.###.#.##.#.##.##...#.###.#.",
+  "#.###.#.#..#.####..#...#..#.#",
+  "#.....#.....#.#.#..##.##.#.#.",
+  "#######.#.#.#..###.#####...#.",
+];
+
+const URL = "https://convos.org/join/abc";
+
+describe("encodeQr", () => {
+  it("encodes a short invite URL as a version 3 code", () => {
+    expect(encodeQr(URL).map((row) => row.map((dark) => (dark ? "#" : ".")).join(""))).toEqual(GOLDEN);
+  });
+
+  it("grows with the text and refuses what no version can hold", () => {
+    expect(encodeQr("https://convos.org/v2?i=" + "x".repeat(300))).toHaveLength(4 * 13 + 17);
+    expect(() => encodeQr("x".repeat(3000))).toThrow("too long");
+  });
+});
+
+describe("renderers", () => {
+  const matrix = encodeQr(URL);
+
+  it("draws two rows per line with half-blocks and a light margin", () => {
+    const lines = renderQrText(matrix).split("\n");
+    // 29 modules plus a margin of 2 on each side
+    expect(lines).toHaveLength(17);
+    expect(lines.every((line) => [...line].length === 33)).toBe(true);
+    expect(lines[0]).toBe("█".repeat(33));
+    expect(lines[1].slice(0, 10)).toBe("██ ▄▄▄▄▄ █");
+  });
+
+  it("sends Kitty images in chunks", () => {
+    const escape = renderQrKitty(matrix, 2);
+    const chunks = escape.split("\x1b\\").filter(Boolean);
+    expect(chunks[0]).toMatch(/^\x1b_Ga=T,f=24,s=66,v=66,m=1;/);
+    expect(chunks.at(-1)).toMatch(/^\x1b_Gm=0;/);
+    const pixels = Buffer.from(chunks.map((chunk) => chunk.slice(chunk.indexOf(";") + 1)).join(""), "base64");
+    expect(pixels.length).toBe(66 * 66 * 3);
+  });
+
+  it("frames Sixel output with its size", () => {
+    const sixel = renderQrSixel(matrix, 1);
+    expect(sixel.startsWith('\x1bPq"1;1;33;33#0;2;100;100;100#1;2;0;0;0')).toBe(true);
+    expect(sixel.endsWith("\x1b\\")).toBe(true);
+    // One band per six pixel rows
+    expect(sixel.match(/-/g)).toHaveLength(6);
+  });
+
+  it("falls back to text when iTerm2 has no PNG, and to nothing without a URL", () => {
+    expect(renderQr("iterm2", { inviteUrl: URL, qrCodePath: "/missing.png" })).toBe(renderQrText(matrix));
+    expect(renderQr("kitty", { inviteUrl: null, qrCodePath: null })).toBeNull();
+  });
+});
+
+describe("detectQrRenderer", () => {
+  it("recognizes terminals by their environment", () => {
+    expect(detectQrRenderer({ KITTY_WINDOW_ID: "1" })).toBe("kitty");
+    expect(detectQrRenderer({ TERM_PROGRAM: "iTerm.app" })).toBe("iterm2");
+    expect(detectQrRenderer({ TERM: "foot" })).toBe("sixel");
+    expect(detectQrRenderer({ TERM: "linux" })).toBe("text");
+  });
+
+  it("uses text under tmux and when output is not a terminal", () => {
+    expect(detectQrRenderer({ KITTY_WINDOW_ID: "1", TMUX: "/tmp/tmux" })).toBe("text");
+    expect(detectQrRenderer({ TERM_PROGRAM: "iTerm.app" }, false)).toBe("text");
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  alignToRepeat,
+  describeRepeat,
+  nextOccurrence,
+  parseDuration,
+  parseRepeat,
+  parseScheduleTime,
+} from "../extensions/convos/schedule.js";
+
+// Monday 19 October 2026, 15:30 local time
+const now = new Date(2026, 9, 19, 15, 30);
+
+describe("parseScheduleTime", () => {
+  it("adds durations to now", () => {
+    expect(parseScheduleTime("in 2h", now)).toEqual(new Date(2026, 9, 19, 17, 30));
+    expect(parseScheduleTime("1h30m", now)).toEqual(new Date(2026, 9, 19, 17, 0));
+  });
+
+  it("picks the next local occurrence of a time of day", () => {
+    expect(parseScheduleTime("17:45", now)).toEqual(new Date(2026, 9, 19, 17, 45));
+    expect(parseScheduleTime("9am", now)).toEqual(new Date(2026, 9, 20, 9, 0));
+    expect(parseScheduleTime("at 9:30pm", now)).toEqual(new Date(2026, 9, 19, 21, 30));
+    expect(parseScheduleTime("tomorrow 17:30", now)).toEqual(new Date(2026, 9, 20, 17, 30));
+  });
+
+  it("reads ISO times and rejects anything else", () => {
+    expect(parseScheduleTime("2026-10-20T09:00:00Z", now)).toEqual(new Date("2026-10-20T09:00:00Z"));
+    for (const value of ["5", "soon", "25:00", "13pm"]) expect(parseScheduleTime(value, now)).toBeNull();
+  });
+});
+
+describe("repeats", () => {
+  it("accepts keywords and intervals of five minutes or more", () => {
+    expect(parseRepeat("Daily")).toBe("daily");
+    expect(parseRepeat("every 2h")).toBe("2h");
+    expect(parseRepeat("1m")).toBeNull();
+    expect(parseDuration("0m")).toBeNull();
+    expect(describeRepeat("2h")).toBe("every 2h");
+  });
+
+  it("skips weekends for weekday schedules", () => {
+    const friday = new Date(2026, 9, 23, 9, 0);
+    expect(nextOccurrence(friday, "weekdays", friday)).toEqual(new Date(2026, 9, 26, 9, 0));
+    expect(alignToRepeat(new Date(2026, 9, 24, 9, 0), "weekdays")).toEqual(new Date(2026, 9, 26, 9, 0));
+  });
+
+  it("moves past every run that was missed", () => {
+    expect(nextOccurrence(new Date(2026, 9, 15, 9, 0), "daily", now)).toEqual(new Date(2026, 9, 20, 9, 0));
+    expect(nextOccurrence(new Date(2026, 9, 19, 14, 0), "45m", now)).toEqual(new Date(2026, 9, 19, 16, 15));
+  });
+});
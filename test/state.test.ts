@@ -0,0 +1,193 @@
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  HISTORY_LIMIT,
+  STATE_VERSION,
+  StateStore,
+  archiveConversation,
+  emptyState,
+  findSavedConversation,
+  migrateState,
+  upsertConversation,
+} from "../extensions/convos/state.js";
+
+let dir: string;
+let path: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "pi-convos-state-"));
+  path = join(dir, "convos.json");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const readFile = () => JSON.parse(readFileSync(path, "utf-8"));
+
+describe("migrateState", () => {
+  it("upgrades single-conversation and unversioned files", () => {
+    expect(migrateState({ conversationId: "c1", lastSeenTimestampNs: "5" })).toEqual({
+      version: STATE_VERSION,
+      conversations: [{ conversationId: "c1", lastSeenTimestampNs: "5" }],
+      history: [],
+      schedules: [],
+      outbox: [],
+    });
+    expect(migrateState({ conversations: [{ conversationId: "c1" }, { bogus: true }] })).toEqual({
+      version: STATE_VERSION,
+      conversations: [{ conversationId: "c1" }],
+      history: [],
+      schedules: [],
+      outbox: [],
+    });
+  });
+
+  it("keeps current files as they are", () => {
+    const state = {
+      version: STATE_VERSION,
+      conversations: [],
+      history: [{ conversationId: "old", stoppedAt: "2026-01-01T00:00:00Z" }],
+      schedules: [],
+      outbox: [],
+    };
+    expect(migrateState(state)).toEqual(state);
+  });
+});
+
+describe("conversation list", () => {
+  it("never moves the catch-up position backwards", () => {
+    const state = emptyState();
+    upsertConversation(state, { conversationId: "c1", name: "Review", lastSeenTimestampNs: "200" });
+    upsertConversation(state, { conversationId: "c1", lastSeenTimestampNs: "100", progress: "basic" });
+    expect(state.conversations).toEqual([
+      { conversationId: "c1", name: "Review", lastSeenTimestampNs: "200", progress: "basic" },
+    ]);
+  });
+
+  it("archives stopped conversations, newest first, and finds them by name", () => {
+    const state = emptyState();
+    upsertConversation(state, { conversationId: "c1", name: "Code Review" });
+    upsertConversation(state, { conversationId: "c2", name: "Deploys" });
+    archiveConversation(state, "c1", new Date("2026-01-01T00:00:00Z"));
+    archiveConversation(state, "c2", new Date("2026-01-02T00:00:00Z"));
+
+    expect(state.conversations).toEqual([]);
+    expect(state.history.map((c) => c.conversationId)).toEqual(["c2", "c1"]);
+    expect(findSavedConversation(state, "code review")?.conversationId).toBe("c1");
+    expect(findSavedConversation(state, "c2")?.name).toBe("Deploys");
+
+    // Resuming takes it out of the history again
+    upsertConversation(state, { conversationId: "c1" });
+    expect(state.history.map((c) => c.conversationId)).toEqual(["c2"]);
+  });
+
+  it("caps the history", () => {
+    const state = emptyState();
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      upsertConversation(state, { conversationId: `c${i}` });
+      archiveConversation(state, `c${i}`);
+    }
+    expect(state.history).toHaveLength(HISTORY_LIMIT);
+    expect(state.history[0].conversationId).toBe(`c${HISTORY_LIMIT + 4}`);
+  });
+});
+
+describe("StateStore", () => {
+  it("batches changes and writes them atomically", () => {
+    vi.useFakeTimers();
+    const store = new StateStore(path, { writeDelayMs: 1000 });
+    store.update((state) => upsertConversation(state, { conversationId: "c1", lastSeenTimestampNs: "1" }));
+    store.update((state) => upsertConversation(state, { conversationId: "c1", lastSeenTimestampNs: "2" }));
+
+    expect(existsSync(path)).toBe(false);
+    expect(store.read().conversations[0].lastSeenTimestampNs).toBe("2");
+
+    vi.advanceTimersByTime(1000);
+    expect(readFile()).toMatchObject({ version: STATE_VERSION, conversations: [{ conversationId: "c1", lastSeenTimestampNs: "2" }] });
+    // No temp or lock files left behind
+    expect(readdirSync(dir)).toEqual(["convos.json"]);
+  });
+
+  it("merges with changes written by another instance", () => {
+    const first = new StateStore(path, { writeDelayMs: 0 });
+    const second = new StateStore(path, { writeDelayMs: 0 });
+    first.update((state) => upsertConversation(state, { conversationId: "c1", lastSeenTimestampNs: "500" }));
+    second.update((state) => upsertConversation(state, { conversationId: "c1", lastSeenTimestampNs: "300" }));
+    second.update((state) => upsertConversation(state, { conversationId: "c2" }));
+
+    expect(readFile().conversations).toEqual([
+      { conversationId: "c1", name: null, lastSeenTimestampNs: "500" },
+      { conversationId: "c2", name: null, lastSeenTimestampNs: null },
+    ]);
+  });
+
+  it("takes over a lock left behind by a dead process", () => {
+    writeFileSync(`${path}.lock`, JSON.stringify({ pid: 2 ** 22 + 12345, at: Date.now() }));
+    const store = new StateStore(path, { writeDelayMs: 0 });
+    store.update((state) => upsertConversation(state, { conversationId: "c1" }));
+    expect(readFile().conversations).toHaveLength(1);
+  });
+
+  it("retries later while another process holds the lock", () => {
+    vi.useFakeTimers();
+    writeFileSync(`${path}.lock`, JSON.stringify({ pid: process.pid, at: Date.now() }));
+    const warnings: string[] = [];
+    const store = new StateStore(path, { writeDelayMs: 0, onWarning: (message) => warnings.push(message) });
+    store.update((state) => upsertConversation(state, { conversationId: "c1" }));
+    expect(existsSync(path)).toBe(false);
+    expect(warnings).toEqual([]);
+
+    vi.advanceTimersByTime(2000);
+    expect(warnings[0]).toContain("Another process holds");
+
+    rmSync(`${path}.lock`);
+    vi.advanceTimersByTime(50);
+    expect(readFile().conversations).toHaveLength(1);
+  });
+
+  it("waits a bounded time for the lock when asked to, then reports unsaved changes", () => {
+    writeFileSync(`${path}.lock`, JSON.stringify({ pid: process.pid, at: Date.now() }));
+    const warnings: string[] = [];
+    const store = new StateStore(path, { writeDelayMs: 1000, onWarning: (message) => warnings.push(message) });
+    store.update((state) => upsertConversation(state, { conversationId: "c1" }));
+
+    const started = Date.now();
+    store.flush({ waitMs: 100 });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(100);
+    expect(existsSync(path)).toBe(false);
+    expect(warnings).toEqual([expect.stringMatching(/held .*convos\.json\.lock for 100 ms; 1 state change\(s\) were not saved/)]);
+
+    rmSync(`${path}.lock`);
+    store.flush({ waitMs: 100 });
+    expect(readFile().conversations).toHaveLength(1);
+  });
+
+  it("sets a corrupt file aside instead of silently dropping it", () => {
+    writeFileSync(path, '{"conversations": [');
+    const warnings: string[] = [];
+    const store = new StateStore(path, { writeDelayMs: 0, onWarning: (message) => warnings.push(message) });
+
+    expect(store.read().conversations).toEqual([]);
+    store.update((state) => upsertConversation(state, { conversationId: "c1" }));
+
+    const aside = readdirSync(dir).find((name) => name.startsWith("convos.json.corrupt-"))!;
+    expect(readFileSync(join(dir, aside), "utf-8")).toBe('{"conversations": [');
+    expect(readFile().conversations).toHaveLength(1);
+    expect(warnings.at(-1)).toContain(`moved to ${join(dir, aside)}`);
+  });
+
+  it("does not overwrite files from a newer version", () => {
+    const newer = JSON.stringify({ version: STATE_VERSION + 1, conversations: [{ conversationId: "c1" }] });
+    writeFileSync(path, newer);
+    const warnings: string[] = [];
+    const store = new StateStore(path, { writeDelayMs: 0, onWarning: (message) => warnings.push(message) });
+    store.update((state) => upsertConversation(state, { conversationId: "c2" }));
+
+    expect(readFileSync(path, "utf-8")).toBe(newer);
+    expect(warnings[0]).toContain("newer version");
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Minimal stand-in for pi's ExtensionAPI that records everything an
+ * extension registers or sends, so tests can drive it without pi.
+ */
+
+import { vi } from "vitest";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+
+export interface StubPi {
+  api: ExtensionAPI;
+  tools: Map<string, any>;
+  commands: Map<string, any>;
+  renderers: Map<string, any>;
+  /** pi.sendMessage calls */
+  messages: { message: any; options: any }[];
+  /** pi.sendUserMessage calls */
+  userMessages: { content: any; options: any }[];
+  /** pi.appendEntry calls */
+  entries: { customType: string; data: any }[];
+  /** Run every handler for an event, returning their results. */
+  emit(event: string, payload?: any, ctx?: any): Promise<any[]>;
+  runTool(name: string, params: any): Promise<any>;
+  runCommand(name: string, args?: string, ctx?: any): Promise<void>;
+  /** Content of every convos message sent so far. */
+  convosContents(): string[];
+}
+
+export function createStubContext(overrides: Record<string, unknown> = {}): any {
+  return {
+    hasUI: false,
+    cwd: process.cwd(),
+    ui: { notify: vi.fn(), setStatus: vi.fn(), confirm: vi.fn(async () => true) },
+    model: undefined,
+    isIdle: () => true,
+    abort: vi.fn(),
+    hasPendingMessages: () => false,
+    ...overrides,
+  };
+}
+
+export function createStubPi(): StubPi {
+  const handlers = new Map<string, ((event: any, ctx: any) => any)[]>();
+  const stub: Omit<StubPi, "api"> = {
+    tools: new Map(),
+    commands: new Map(),
+    renderers: new Map(),
+    messages: [],
+    userMessages: [],
+    entries: [],
+    async emit(event, payload = {}, ctx = createStubContext()) {
+      const results = [];
+      for (const handler of handlers.get(event) ?? []) {
+        results.push(await handler({ type: event, ...payload }, ctx));
+      }
+      return results;
+    },
+    async runTool(name, params) {
+      const tool = stub.tools.get(name);
+      if (!tool) throw new Error(`Tool ${name} is not registered`);
+      return tool.execute(`call-${name}`, params, undefined, undefined, createStubContext());
+    },
+    async runCommand(name, args = "", ctx = createStubContext({ hasUI: true })) {
+      const command = stub.commands.get(name);
+      if (!command) throw new Error(`Command ${name} is not registered`);
+      await command.handler(args, ctx);
+    },
+    convosContents() {
+      return stub.messages
+        .filter((m) => m.message.customType === "convos")
+        .map((m) => m.message.content);
+    },
+  };
+
+  const api = {
+    on(event: string, handler: (event: any, ctx: any) => any) {
+      handlers.set(event, [...(handlers.get(event) ?? []), handler]);
+    },
+    registerTool(tool: any) {
+      stub.tools.set(tool.name, tool);
+    },
+    registerCommand(name: string, options: any) {
+      stub.commands.set(name, options);
+    },
+    registerMessageRenderer(customType: string, renderer: any) {
+      stub.renderers.set(customType, renderer);
+    },
+    sendMessage(message: any, options?: any) {
+      stub.messages.push({ message, options });
+    },
+    sendUserMessage(content: any, options?: any) {
+      stub.userMessages.push({ content, options });
+    },
+    appendEntry(customType: string, data?: any) {
+      stub.entries.push({ customType, data });
+    },
+  } as unknown as ExtensionAPI;
+
+  return { ...stub, api } as StubPi;
+}
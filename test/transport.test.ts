@@ -0,0 +1,28 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createCliTransport } from "../extensions/convos/transport.js";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("serve", () => {
+  it("reports a child that cannot be spawned as one exit instead of crashing", async () => {
+    const emptyPath = mkdtempSync(join(tmpdir(), "pi-convos-path-"));
+    vi.stubEnv("PATH", emptyPath);
+    try {
+      const onExit = vi.fn();
+      const onStderr = vi.fn();
+      createCliTransport().serve([], { onEvent: vi.fn(), onStderr, onExit });
+
+      await vi.waitFor(() => expect(onExit).toHaveBeenCalledWith(null));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(onExit).toHaveBeenCalledTimes(1);
+      expect(onStderr).toHaveBeenCalledWith(expect.stringMatching(/^convos agent serve failed: spawn convos ENOENT/));
+    } finally {
+      rmSync(emptyPath, { recursive: true, force: true });
+    }
+  });
+});